@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { 
   Upload, 
   Download, 
@@ -20,8 +20,62 @@ import {
   Unlock,
   Settings2,
   Globe,
-  LucideIcon
+  LucideIcon,
+  RotateCcw,
+  Copy,
+  ClipboardPaste,
+  CheckCheck,
+  SlidersHorizontal,
+  Archive,
+  X,
+  Ratio,
+  Pencil,
+  ArrowUp,
+  ArrowDown,
+  Save,
+  FileDown,
+  FileUp,
+  Palette,
+  Type,
+  Italic,
+  CaseUpper,
+  Award,
+  ImageUp,
+  Shuffle,
+  Dices,
+  Crop,
+  RotateCw,
+  FlipHorizontal2,
+  FlipVertical2,
+  LayoutGrid,
+  Stamp
 } from 'lucide-react';
+import { readExif, exifToMarkings, parseExifDate, ExifData } from './utils/exif';
+import { renderFrame, computeLayout, getTargetPixelSize } from './utils/renderer';
+import { createRenderClient, RenderClient } from './utils/renderClient';
+import { canvasToBlob, downloadBlob, wait, EXPORT_FORMATS, DEFAULT_EXPORT_SETTINGS, formatFilename, uniqueFilename } from './utils/export';
+import { loadJSON, saveJSON, STORAGE_KEYS, DB_STORES, loadRecords, saveRecord, deleteRecord } from './utils/storage';
+import { extractJpegMetadata, patchExifSegment, embedJpegMetadata } from './utils/jpegMetadata';
+import { createZip, ZipEntry } from './utils/zip';
+import { DEFAULT_SETTINGS } from './utils/settings';
+import { createUserPreset, applyUserPreset, sanitizePresets, serializePresets, parsePresetFile } from './utils/presets';
+import { BUILTIN_STYLES, FONT_CHOICES, LAYOUT_CAPTIONS } from './utils/styles';
+import { CAPTION_SLOTS, CAPTION_TOKENS } from './utils/captions';
+import { samplePalette, extractPalette, PALETTE_MIN, PALETTE_MAX } from './utils/palette';
+import { BRAND_MARKS, detectBrand, decodeLogo, readFileAsDataUrl } from './utils/logos';
+import { DEFAULT_WATERMARK, WATERMARK_ANCHORS, WATERMARK_EDGE } from './utils/watermark';
+import { formatQuartzDate, QUARTZ_COLORS, QUARTZ_FORMATS } from './utils/quartz';
+import { hashSeed } from './utils/random';
+import { LEAK_COLORS, LEAK_STYLES } from './utils/leaks';
+import { BUILTIN_LUTS, parseCubeLut } from './utils/luts';
+import { GLOW_FILTERS, GLOW_TINTS } from './utils/glow';
+import { CROP_ASPECTS, DEFAULT_CROP, cropSource, getCroppedSize } from './utils/crop';
+import { FILM_STOCKS } from './utils/filmStrip';
+import { COMPOSITION_LAYOUTS, DEFAULT_COMPOSITION, MIN_COMPOSITION, MAX_COMPOSITION, getCompositionSize, renderComposition } from './utils/composition';
+import { resolveFrameColors } from './utils/backgrounds';
+import { hasRoundedCanvas } from './utils/mat';
+import { CONTACT_PX_PER_MM, CONTACT_STRIP_FRAMES, createContactSheet, getContactSheetSize } from './utils/contactSheet';
+import { Metadata, Margins, RenderSettings, SettingsSection, ExportSettings, ExportFormat, TargetCanvas, TargetUnit, UserPreset, LayoutStyle, CaptionLine, CaptionFont, LogoSettings, FrameAssets, PaletteSettings, BackgroundMode, PaperTexture, LeakSettings, LutSettings, LutInterpolation, CubeLut, LensSettings, CropSettings, CropAspect, FilmSettings, WatermarkSettings, WatermarkAnchor, QuartzSettings, QuartzCorner, RebateTint, CompositionLayout, CompositionSettings, PaletteColor, MatSettings } from './types';
 
 /**
  * Lumina Frame - Ultimate Edition
@@ -37,8 +91,40 @@ const TRANSLATIONS = {
     film_roll: "Film Roll",
     clear_all: "CLEAR ALL",
     presets: "Presets",
+    my_presets: "My Presets",
+    preset_name: "Preset name",
+    save_preset: "Save Look",
+    import_presets: "Import",
+    export_presets: "Export",
+    import_failed: "Could not import presets",
+    style: "Style",
+    background: "Background",
+    text_color: "Text",
+    layout: "Layout",
+    layout_gallery: "Gallery",
+    layout_polaroid: "Instant",
+    layout_negative: "Negative",
+    film_stock: "Film Stock",
+    film_frame: "First Frame",
+    film_pitch: "Sprocket Pitch",
+    film_edge_print: "Edge Print",
+    film_dx_code: "DX Barcode",
+    film_rebate: "Film Base",
+    rebate_style: "Style",
+    rebate_orange: "Orange",
+    rebate_custom: "Custom",
+    layout_cinema: "Cinema",
+    title_font: "Title Font",
+    body_font: "Body Font",
+    script_font: "Signature Font",
     geometry: "Geometry",
     simple_scale: "Global Scale",
+    target_canvas: "Target Canvas",
+    target_custom: "Custom",
+    min_border: "Min Border",
+    match_orientation: "Follow Photo Orientation",
+    unit_ratio: "Ratio",
+    dpi: "DPI",
     optics: "Optics Lab",
     diffusion: "Diffusion",
     intensity: "Intensity",
@@ -49,9 +135,164 @@ const TRANSLATIONS = {
     settings_placeholder: "ISO / Shutter",
     date_placeholder: "Date",
     quartz_placeholder: "Quartz Date",
+    quartz_segment: "7-Segment",
+    quartz_matrix: "Dot Matrix",
+    quartz_color: "LED",
+    quartz_orange: "Orange",
+    quartz_red: "Red",
+    quartz_yellow: "Yellow",
+    quartz_time: "Time",
+    quartz_corner: "Corner",
+    quartz_rotation: "Rotation",
+    quartz_size: "Digit Size",
+    quartz_auto: "Auto Date",
+    quartz_year_offset: "Year Offset",
+    quartz_auto_hint: "Each photo is dated from its capture time, or its file time without EXIF",
+    quartz_manual_hint: "The date typed under Data Input is printed as is",
+    make_placeholder: "Make",
+    model_placeholder: "Model",
+    focal_placeholder: "Focal",
+    aperture_placeholder: "f/",
+    shutter_placeholder: "Shutter",
+    iso_placeholder: "ISO",
+    captions: "Captions",
+    caption_template: "Template",
+    add_caption: "Add Line",
+    reset_captions: "Layout Default",
+    slot_top_left: "Top Left",
+    slot_top_center: "Top Centre",
+    slot_top_right: "Top Right",
+    slot_bottom_left: "Bottom Left",
+    slot_bottom_center: "Bottom Centre",
+    slot_bottom_right: "Bottom Right",
+    font_title: "Title",
+    font_body: "Body",
+    font_script: "Script",
+    size: "Size",
+    opacity: "Opacity",
+    tracking: "Tracking",
+    border_fill: "Border Fill",
+    fill_solid: "Solid",
+    fill_ambient: "Ambient",
+    fill_dominant: "Dominant",
+    fill_gradient: "Gradient",
+    fill_paper: "Paper",
+    dim: "Dim",
+    angle: "Angle",
+    texture_paper: "Paper",
+    texture_canvas: "Canvas",
+    auto_text: "Contrast-safe Text",
+    palette_count: "Colours",
+    palette_sort: "Order",
+    sort_dominance: "Dominance",
+    sort_hue: "Hue",
+    palette_labels: "Labels",
+    labels_none: "None",
+    swatch_shape: "Shape",
+    shape_circle: "Circle",
+    shape_square: "Square",
+    shape_rounded: "Rounded",
+    logo: "Brand Logo",
+    logo_enabled: "Show Logo",
+    logo_auto: "Auto",
+    logo_custom: "Custom",
+    logo_none_detected: "no brand found",
+    logo_upload: "Upload SVG/PNG",
+    logo_remove: "Remove",
+    logo_position: "Position",
+    logo_monochrome: "Monochrome",
+    logo_layouts_only: "Shown in gallery and instant layouts",
+    logo_failed: "Could not read this logo",
+    watermark: "Watermark",
+    watermark_text: "Text",
+    watermark_image: "Image",
+    watermark_upload: "Upload PNG / SVG",
+    watermark_on_photo: "On Photo",
+    watermark_on_border: "In Border",
+    watermark_anchor: "Position",
+    watermark_tiled: "Tiled",
+    watermark_scale: "Scale",
+    watermark_rotation: "Rotation",
+    watermark_offset: "Margin",
+    watermark_spacing: "Spacing",
+    watermark_all_photos: "Applied to every photo and export; remembered between sessions",
+    watermark_failed: "Could not read this watermark",
+    crop: "Crop & Rotate",
+    crop_original: "Original",
+    crop_swap: "Swap",
+    crop_reset: "Reset",
+    rotate_left: "Rotate Left",
+    rotate_right: "Rotate Right",
+    flip_horizontal: "Flip Horizontal",
+    flip_vertical: "Flip Vertical",
+    straighten: "Straighten",
+    crop_zoom: "Zoom",
+    crop_pan_x: "Pan X",
+    crop_pan_y: "Pan Y",
+    lens: "Lens",
+    vignette: "Vignette",
+    vignette_midpoint: "Midpoint",
+    vignette_roundness: "Roundness",
+    vignette_feather: "Feather",
+    aberration: "Chromatic Aberration",
+    distortion: "Distortion",
+    barrel: "Barrel",
+    pincushion: "Pincushion",
+    film_look: "Film Look / LUT",
+    lut_none: "None",
+    lut_builtin: "Film Stocks",
+    lut_uploaded: "Uploaded",
+    lut_upload: "Load .cube",
+    lut_remove: "Remove",
+    lut_trilinear: "Trilinear",
+    lut_tetrahedral: "Tetrahedral",
+    lut_failed: "Could not read this LUT (3D .cube files only)",
     save: "SAVE",
     batch_export: "BATCH EXPORT",
     processing: "PROCESSING...",
+    zip_archive: "Single ZIP",
+    export_settings: "Export",
+    format: "Format",
+    quality: "Quality",
+    max_edge: "Max Long Edge",
+    original_size: "Original",
+    filename: "File Name",
+    keep_metadata: "Keep EXIF / ICC",
+    strip_location: "Strip Location",
+    jpeg_only: "JPEG sources and exports only",
+    contact_sheet: "Contact Sheet",
+    photo_radius: "Photo Corners",
+    canvas_radius: "Canvas Corners",
+    rounded_png: "Rounded canvases export as transparent PNG",
+    mat: "Passe-partout",
+    mat_width: "Mat Width",
+    mat_bevel: "Bevel",
+    keyline: "Keyline",
+    keyline_color: "Colour",
+    on: "On",
+    off: "Off",
+    compose: "Compose",
+    compose_hint: "Pick 2–9 photos in order",
+    composition_failed: "Could not export the composition.",
+    export_failed: "Could not export this photo.",
+    preview_failed: "Could not render the preview.",
+    "composition_side-by-side": "Side",
+    composition_stacked: "Stack",
+    "composition_grid-2": "2×2",
+    "composition_grid-3": "3×3",
+    composition_feature: "1+2",
+    gutter: "Gutter",
+    fit_crop: "Fill",
+    fit_contain: "Fit",
+    frames_per_strip: "Frames / strip",
+    export_contact_sheet: "Export Contact Sheet",
+    contact_sheet_failed: "Could not export the contact sheet.",
+    contact_frame_failed: "Could not draw this frame",
+    filename_hint: "{name} {index} {preset} {camera} {date}",
+    cancel: "CANCEL",
+    batch_summary: "{done} of {total} exported",
+    batch_cancelled: "Cancelled",
+    batch_failed: "Failed",
     load_photos: "Load photos to start",
     preset_gallery: "Gallery White",
     preset_darkroom: "Darkroom Black",
@@ -62,12 +303,37 @@ const TRANSLATIONS = {
     filter_soft: "Classic Soft",
     filter_black_mist: "Black Mist",
     filter_dreamy: "Nose Grease",
+    filter_halation: "Halation",
+    filter_bloom: "Bloom",
+    threshold: "Threshold",
+    tint: "Tint",
     toggle_leak: "Leak",
     toggle_shadow: "Shadow",
     toggle_grain: "Grain",
+    grain_size: "Grain Size",
+    grain_amount: "Amount",
+    grain_roughness: "Roughness",
+    grain_chroma: "Colour Noise",
+    "leak_edge-burn": "Burn",
+    "leak_corner-flare": "Flare",
+    leak_streak: "Streak",
+    leak_prism: "Prism",
+    leak_fog: "Fog",
+    leak_color: "Colour",
+    leak_hue: "Start Hue",
+    leak_position: "Position",
+    leak_angle: "Angle",
+    leak_randomize: "Randomise per Frame",
+    leak_reshuffle: "Reshuffle",
     toggle_quartz: "Quartz",
     toggle_sign: "Sign",
     toggle_palette: "Palette",
+    exif_detected: "EXIF",
+    reset_exif: "Reset to EXIF",
+    own_settings: "Own Settings",
+    copy_settings: "Copy",
+    paste_settings: "Paste",
+    apply_all: "Apply to All",
     top: "Top",
     bottom: "Bottom",
     left: "Left",
@@ -81,8 +347,40 @@ const TRANSLATIONS = {
     film_roll: "胶卷",
     clear_all: "清空",
     presets: "预设风格",
+    my_presets: "我的预设",
+    preset_name: "预设名称",
+    save_preset: "保存当前风格",
+    import_presets: "导入",
+    export_presets: "导出",
+    import_failed: "无法导入预设",
+    style: "样式",
+    background: "背景",
+    text_color: "文字",
+    layout: "布局",
+    layout_gallery: "画廊",
+    layout_polaroid: "拍立得",
+    layout_negative: "底片",
+    film_stock: "胶卷型号",
+    film_frame: "起始张号",
+    film_pitch: "齿孔间距",
+    film_edge_print: "边缘字码",
+    film_dx_code: "DX 条码",
+    film_rebate: "片基颜色",
+    rebate_style: "跟随样式",
+    rebate_orange: "橙色片基",
+    rebate_custom: "自定义",
+    layout_cinema: "电影",
+    title_font: "标题字体",
+    body_font: "正文字体",
+    script_font: "签名字体",
     geometry: "几何尺寸",
     simple_scale: "全局缩放",
+    target_canvas: "目标画布",
+    target_custom: "自定义",
+    min_border: "最小边框",
+    match_orientation: "跟随照片方向",
+    unit_ratio: "比例",
+    dpi: "DPI",
     optics: "光学实验室",
     diffusion: "柔光效果",
     intensity: "强度",
@@ -93,9 +391,164 @@ const TRANSLATIONS = {
     settings_placeholder: "ISO / 快门",
     date_placeholder: "日期",
     quartz_placeholder: "石英日期",
+    quartz_segment: "七段数码",
+    quartz_matrix: "点阵",
+    quartz_color: "LED",
+    quartz_orange: "橙",
+    quartz_red: "红",
+    quartz_yellow: "黄",
+    quartz_time: "时间",
+    quartz_corner: "角落",
+    quartz_rotation: "旋转",
+    quartz_size: "数字大小",
+    quartz_auto: "自动日期",
+    quartz_year_offset: "年份偏移",
+    quartz_auto_hint: "按拍摄时间为每张照片打日期，无 EXIF 时使用文件时间",
+    quartz_manual_hint: "按数据输入中填写的日期原样打印",
+    make_placeholder: "品牌",
+    model_placeholder: "型号",
+    focal_placeholder: "焦距",
+    aperture_placeholder: "光圈",
+    shutter_placeholder: "快门",
+    iso_placeholder: "ISO",
+    captions: "文字排版",
+    caption_template: "模板",
+    add_caption: "添加一行",
+    reset_captions: "恢复布局默认",
+    slot_top_left: "上左",
+    slot_top_center: "上中",
+    slot_top_right: "上右",
+    slot_bottom_left: "下左",
+    slot_bottom_center: "下中",
+    slot_bottom_right: "下右",
+    font_title: "标题",
+    font_body: "正文",
+    font_script: "手写",
+    size: "字号",
+    opacity: "不透明度",
+    tracking: "字距",
+    border_fill: "边框填充",
+    fill_solid: "纯色",
+    fill_ambient: "氛围",
+    fill_dominant: "主色",
+    fill_gradient: "渐变",
+    fill_paper: "纸张",
+    dim: "压暗",
+    angle: "角度",
+    texture_paper: "纸纹",
+    texture_canvas: "画布",
+    auto_text: "自动对比文字",
+    palette_count: "颜色数",
+    palette_sort: "排序",
+    sort_dominance: "占比",
+    sort_hue: "色相",
+    palette_labels: "标注",
+    labels_none: "无",
+    swatch_shape: "形状",
+    shape_circle: "圆形",
+    shape_square: "方形",
+    shape_rounded: "圆角",
+    logo: "品牌标志",
+    logo_enabled: "显示标志",
+    logo_auto: "自动",
+    logo_custom: "自定义",
+    logo_none_detected: "未识别品牌",
+    logo_upload: "上传 SVG/PNG",
+    logo_remove: "移除",
+    logo_position: "位置",
+    logo_monochrome: "单色",
+    logo_layouts_only: "仅在画廊与拍立得布局中显示",
+    logo_failed: "无法读取该标志",
+    watermark: "水印",
+    watermark_text: "文字",
+    watermark_image: "图片",
+    watermark_upload: "上传 PNG / SVG",
+    watermark_on_photo: "照片内",
+    watermark_on_border: "边框内",
+    watermark_anchor: "位置",
+    watermark_tiled: "平铺",
+    watermark_scale: "大小",
+    watermark_rotation: "旋转",
+    watermark_offset: "边距",
+    watermark_spacing: "间距",
+    watermark_all_photos: "应用于所有照片与导出，并在下次打开时保留",
+    watermark_failed: "无法读取该水印",
+    crop: "裁剪与旋转",
+    crop_original: "原始",
+    crop_swap: "横竖互换",
+    crop_reset: "重置",
+    rotate_left: "向左旋转",
+    rotate_right: "向右旋转",
+    flip_horizontal: "水平翻转",
+    flip_vertical: "垂直翻转",
+    straighten: "拉直",
+    crop_zoom: "缩放",
+    crop_pan_x: "水平平移",
+    crop_pan_y: "垂直平移",
+    lens: "镜头",
+    vignette: "暗角",
+    vignette_midpoint: "中点",
+    vignette_roundness: "圆度",
+    vignette_feather: "羽化",
+    aberration: "色差",
+    distortion: "畸变",
+    barrel: "桶形",
+    pincushion: "枕形",
+    film_look: "胶片风格 / LUT",
+    lut_none: "无",
+    lut_builtin: "胶片",
+    lut_uploaded: "已上传",
+    lut_upload: "载入 .cube",
+    lut_remove: "移除",
+    lut_trilinear: "三线性",
+    lut_tetrahedral: "四面体",
+    lut_failed: "无法读取该 LUT（仅支持 3D .cube 文件）",
     save: "保存",
     batch_export: "批量导出",
     processing: "处理中...",
+    zip_archive: "打包为 ZIP",
+    export_settings: "导出设置",
+    format: "格式",
+    quality: "质量",
+    max_edge: "最长边",
+    original_size: "原始尺寸",
+    filename: "文件名",
+    keep_metadata: "保留 EXIF / ICC",
+    strip_location: "移除位置信息",
+    jpeg_only: "仅适用于 JPEG 原图与导出",
+    contact_sheet: "印样",
+    photo_radius: "照片圆角",
+    canvas_radius: "画布圆角",
+    rounded_png: "圆角画布将导出为透明 PNG",
+    mat: "卡纸",
+    mat_width: "卡纸宽度",
+    mat_bevel: "斜边",
+    keyline: "细线",
+    keyline_color: "颜色",
+    on: "开",
+    off: "关",
+    compose: "拼图",
+    compose_hint: "按顺序选择 2–9 张照片",
+    composition_failed: "拼图导出失败。",
+    export_failed: "照片导出失败。",
+    preview_failed: "预览渲染失败。",
+    "composition_side-by-side": "并排",
+    composition_stacked: "上下",
+    "composition_grid-2": "2×2",
+    "composition_grid-3": "3×3",
+    composition_feature: "一大两小",
+    gutter: "间距",
+    fit_crop: "填充",
+    fit_contain: "完整",
+    frames_per_strip: "每条张数",
+    export_contact_sheet: "导出印样",
+    contact_sheet_failed: "印样导出失败。",
+    contact_frame_failed: "无法绘制该画格",
+    filename_hint: "{name} {index} {preset} {camera} {date}",
+    cancel: "取消",
+    batch_summary: "已导出 {done} / {total}",
+    batch_cancelled: "已取消",
+    batch_failed: "失败",
     load_photos: "请加载照片以开始",
     preset_gallery: "画廊白",
     preset_darkroom: "暗房黑",
@@ -106,12 +559,37 @@ const TRANSLATIONS = {
     filter_soft: "经典柔光",
     filter_black_mist: "黑柔",
     filter_dreamy: "梦幻",
+    filter_halation: "光晕",
+    filter_bloom: "高光泛光",
+    threshold: "阈值",
+    tint: "色调",
     toggle_leak: "漏光",
     toggle_shadow: "阴影",
     toggle_grain: "颗粒",
+    grain_size: "颗粒大小",
+    grain_amount: "强度",
+    grain_roughness: "粗糙度",
+    grain_chroma: "彩色噪点",
+    "leak_edge-burn": "边缘灼烧",
+    "leak_corner-flare": "角落光晕",
+    leak_streak: "光带",
+    leak_prism: "棱镜",
+    leak_fog: "卷尾跑光",
+    leak_color: "颜色",
+    leak_hue: "起始色相",
+    leak_position: "位置",
+    leak_angle: "角度",
+    leak_randomize: "逐张随机",
+    leak_reshuffle: "重新随机",
     toggle_quartz: "石英钟",
     toggle_sign: "签名",
     toggle_palette: "色卡",
+    exif_detected: "EXIF",
+    reset_exif: "恢复EXIF",
+    own_settings: "独立设置",
+    copy_settings: "复制",
+    paste_settings: "粘贴",
+    apply_all: "应用到全部",
     top: "上边距",
     bottom: "下边距",
     left: "左边距",
@@ -120,42 +598,25 @@ const TRANSLATIONS = {
 };
 
 // --- Types ---
-interface Color {
-  r: number;
-  g: number;
-  b: number;
-}
-
 interface QueueItem {
   id: number;
   file: File;
   src: HTMLImageElement;
   metrics: { width: number; height: number };
-  colors: Color[];
-}
-
-interface Margins {
-  top: number;
-  bottom: number;
-  left: number;
-  right: number;
-}
-
-interface Metadata {
-  camera: string;
-  lens: string;
-  settings: string;
-  date: string;
-  quartzDate: string;
-  signature: string;
-  showMetadata: boolean;
+  samples: Float32Array; // OKLab pixels the palette is clustered from
+  seed: number; // drives grain and other procedural effects; stable for the same file
+  exif: ExifData | null;
+  // Manual edits made while this image was selected
+  metadataOverrides?: Partial<Metadata>;
+  // Own frame settings; falls back to the global settings when absent
+  settings?: RenderSettings;
+  // Crop and rotation parameters; the source stays untouched
+  crop?: CropSettings;
 }
 
 interface Preset {
   id: string;
   nameKey: keyof typeof TRANSLATIONS.en;
-  bg: string;
-  text: string;
   icon: React.ReactNode;
 }
 
@@ -166,6 +627,75 @@ interface Filter {
 
 type Lang = 'en' | 'zh';
 
+interface BatchReport {
+  exported: number;
+  total: number;
+  cancelled: boolean;
+  failures: Array<{ name: string; reason: string }>;
+}
+
+// Long edge the cropped photo is drawn at before palette sampling
+const CROP_SAMPLE_EDGE = 256;
+
+// When the photo was taken, or failing that when its file was last written
+const getCaptureDate = (item: Pick<QueueItem, 'exif' | 'file'>) =>
+  parseExifDate(item.exif?.dateTimeOriginal) ?? new Date(item.file.lastModified);
+
+// Size of the photo as it will be framed, i.e. after its crop
+const getPhotoSize = (item: Pick<QueueItem, 'metrics' | 'crop'>) =>
+  getCroppedSize(item.metrics.width, item.metrics.height, item.crop);
+
+// Palette samples follow the crop, so the swatches only show colours still in the frame
+const samplePhoto = (item: Pick<QueueItem, 'src' | 'metrics' | 'crop'>) => {
+  if (!item.crop) return samplePalette(item.src, item.metrics.width, item.metrics.height);
+  const size = getPhotoSize(item);
+  const k = Math.min(1, CROP_SAMPLE_EDGE / Math.max(size.width, size.height));
+  const w = Math.max(1, Math.round(size.width * k)), h = Math.max(1, Math.round(size.height * k));
+  return samplePalette(cropSource(item.src, item.crop, w, h), w, h);
+};
+
+// Output scale of an export, `maxEdge` > 0 capping the long edge. Print targets render at
+// exactly their physical size x DPI: `canvasSize` is that pixel size, which the margins then fill.
+const getExportSize = (width: number, height: number, colors: PaletteColor[], settings: RenderSettings, maxEdge: number) => {
+  const full = computeLayout(width, height, colors, settings);
+  const printSize = settings.border.mode === 'target' ? getTargetPixelSize(width, height, settings.border.target) : null;
+  const scale = printSize ? printSize.width / full.canvasWidth : 1;
+  if (maxEdge > 0 && maxEdge < Math.max(full.canvasWidth, full.canvasHeight) * scale) {
+      return { scale: maxEdge / Math.max(full.canvasWidth, full.canvasHeight) };
+  }
+  return { scale, canvasSize: printSize ?? undefined };
+};
+
+// Render client id of the composition; queue ids are positive
+const COMPOSITION_ID = -1;
+
+// Markings fields that are read from EXIF and can be overridden per image
+const PER_IMAGE_FIELDS: Array<keyof Metadata> = [
+  'camera', 'lens', 'settings', 'date', 'quartzDate', 'make', 'model', 'focal', 'aperture', 'shutter', 'iso'
+];
+
+const CAPTION_WEIGHTS = [300, 400, 500, 700, 900];
+
+// Target canvas shortcuts: social aspect ratios and common print sizes
+const TARGET_PRESETS: Array<{ label: string } & Pick<TargetCanvas, 'width' | 'height' | 'unit'>> = [
+  { label: '4:5', width: 4, height: 5, unit: 'ratio' },
+  { label: '1:1', width: 1, height: 1, unit: 'ratio' },
+  { label: '9:16', width: 9, height: 16, unit: 'ratio' },
+  { label: '3:2', width: 3, height: 2, unit: 'ratio' },
+  { label: '5×7"', width: 5, height: 7, unit: 'in' },
+  { label: '8×10"', width: 8, height: 10, unit: 'in' },
+  { label: 'A4', width: 210, height: 297, unit: 'mm' },
+  { label: 'A3', width: 297, height: 420, unit: 'mm' },
+];
+
+// Preview proxy: long edge of the source in the preview, capped for very large screens
+const PREVIEW_MAX_EDGE = 2560;
+// Slider drags are coalesced into one preview render per pause
+const PREVIEW_DEBOUNCE_MS = 40;
+
+const getPreviewEdge = () =>
+  Math.min(PREVIEW_MAX_EDGE, Math.ceil(Math.max(window.innerWidth, window.innerHeight) * (window.devicePixelRatio || 1)));
+
 export default function App() {
   // -- State --
   const [lang, setLang] = useState<Lang>('en');
@@ -175,55 +705,72 @@ export default function App() {
   const [currentIndex, setCurrentIndex] = useState<number>(-1);
   const currentImage = currentIndex >= 0 ? queue[currentIndex] : null;
 
-  // 1. Border Logic
-  const [borderMode, setBorderMode] = useState<'simple' | 'advanced'>('simple');
-  const [scale, setScale] = useState<number>(10); // 10% padding by default
-  const [margins, setMargins] = useState<Margins>({ top: 10, bottom: 10, left: 10, right: 10 }); 
-  const [borderType, setBorderType] = useState<string>('simple-white'); 
-
-  // 2. Optics & Physics
-  const [shadowEnabled, setShadowEnabled] = useState<boolean>(true); 
-  const [paletteEnabled, setPaletteEnabled] = useState<boolean>(false);
-  const [textureEnabled, setTextureEnabled] = useState<boolean>(false);
-  const [leakEnabled, setLeakEnabled] = useState<boolean>(false);
-  
-  const [filterType, setFilterType] = useState<string>('none'); 
-  const [filterStrength, setFilterStrength] = useState<number>(0.5);
-  const [filterRadius, setFilterRadius] = useState<number>(20);
-
-  // 3. Imprint & Metadata
-  const [quartzEnabled, setQuartzEnabled] = useState<boolean>(false); 
-  const [signatureEnabled, setSignatureEnabled] = useState<boolean>(false); 
-  const [metadata, setMetadata] = useState<Metadata>({
-    camera: 'LEICA M6',
-    lens: 'SUMMILUX 35mm',
-    settings: 'PORTRA 400',
-    date: '1998.05.24', 
-    quartzDate: `'98 05 24`, 
-    signature: 'Lumina User',
-    showMetadata: true
-  });
+  // Frame Settings
+  // The sidebar edits the selected image's own settings when it has them, the global ones otherwise.
+  const [globalSettings, setGlobalSettings] = useState<RenderSettings>(DEFAULT_SETTINGS);
+  const [settingsClipboard, setSettingsClipboard] = useState<RenderSettings | null>(null);
+  const [userPresets, setUserPresets] = useState<UserPreset[]>(() => sanitizePresets(loadJSON<unknown>(STORAGE_KEYS.userPresets, [])));
+  const [presetName, setPresetName] = useState<string>('');
+  const [editingPresetId, setEditingPresetId] = useState<string | null>(null);
+  const activeSettings = currentImage?.settings ?? globalSettings;
+  const { style, border, optics, markings, quartz, logo, film, palette, background } = activeSettings;
+  const { lightLeak } = optics;
+  const crop = currentImage?.crop ?? DEFAULT_CROP;
 
   // UI State
   const [opticsExpanded, setOpticsExpanded] = useState<boolean>(false);
+  const [exportExpanded, setExportExpanded] = useState<boolean>(false);
+  const [styleExpanded, setStyleExpanded] = useState<boolean>(false);
+  const [captionsExpanded, setCaptionsExpanded] = useState<boolean>(false);
+  const [logoExpanded, setLogoExpanded] = useState<boolean>(false);
+  const [cropExpanded, setCropExpanded] = useState<boolean>(false);
+  // Composition mode: the film roll picks photos for one multi-image frame
+  const [composing, setComposing] = useState<boolean>(false);
+  const [compositionIds, setCompositionIds] = useState<number[]>([]);
+  const [composition, setComposition] = useState<CompositionSettings>(DEFAULT_COMPOSITION);
+  // Uploaded logo: kept as a data URL in storage, decoded once for rendering
+  const [customLogo, setCustomLogo] = useState<string | null>(() => loadJSON<string | null>(STORAGE_KEYS.customLogo, null));
+  const [customLogoBitmap, setCustomLogoBitmap] = useState<ImageBitmap | null>(null);
+  // Watermark: the same for every photo and remembered between sessions, its image stored like the logo
+  const [watermark, setWatermark] = useState<WatermarkSettings>(() => ({
+    ...DEFAULT_WATERMARK,
+    ...loadJSON<Partial<WatermarkSettings>>(STORAGE_KEYS.watermark, {})
+  }));
+  const [watermarkImage, setWatermarkImage] = useState<string | null>(() => loadJSON<string | null>(STORAGE_KEYS.watermarkImage, null));
+  const [watermarkBitmap, setWatermarkBitmap] = useState<ImageBitmap | null>(null);
+  const [watermarkExpanded, setWatermarkExpanded] = useState<boolean>(false);
+  // Uploaded .cube LUTs, kept in IndexedDB
+  const [userLuts, setUserLuts] = useState<CubeLut[]>([]);
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [geometryExpanded, setGeometryExpanded] = useState<boolean>(true);
   const [isBatchProcessing, setIsBatchProcessing] = useState<boolean>(false);
+  const [zipBatch, setZipBatch] = useState<boolean>(true);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(() => ({
+    ...DEFAULT_EXPORT_SETTINGS,
+    ...loadJSON<Partial<ExportSettings>>(STORAGE_KEYS.exportSettings, {})
+  }));
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [batchReport, setBatchReport] = useState<BatchReport | null>(null);
+  const batchCancelRef = useRef<boolean>(false);
   const [isDragging, setIsDragging] = useState<boolean>(false);
   
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  // Preview is a proxy drawn off the main thread and shown from a transferred bitmap;
+  // full resolution is only rendered on export
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const renderClientRef = useRef<RenderClient | null>(null);
+  const [hasPreview, setHasPreview] = useState<boolean>(false);
+  const [previewFailed, setPreviewFailed] = useState<boolean>(false);
 
   // Helper for translations
   const t = (key: keyof typeof TRANSLATIONS.en) => TRANSLATIONS[lang][key] || key;
 
   // -- Constants --
   const PRESETS: Preset[] = [
-    { id: 'simple-white', nameKey: 'preset_gallery', bg: '#ffffff', text: '#333333', icon: <Maximize2 size={16} /> },
-    { id: 'simple-black', nameKey: 'preset_darkroom', bg: '#121212', text: '#aaaaaa', icon: <Film size={16} /> },
-    { id: 'polaroid', nameKey: 'preset_instant', bg: '#f4f4f4', text: '#222222', icon: <ImageIcon size={16} /> },
-    { id: 'film-negative', nameKey: 'preset_negative', bg: '#000000', text: '#aaaaaa', icon: <Scissors size={16} /> },
-    { id: 'cinema', nameKey: 'preset_cinema', bg: '#000000', text: '#ffffff', icon: <Aperture size={16} /> },
+    { id: 'simple-white', nameKey: 'preset_gallery', icon: <Maximize2 size={16} /> },
+    { id: 'simple-black', nameKey: 'preset_darkroom', icon: <Film size={16} /> },
+    { id: 'polaroid', nameKey: 'preset_instant', icon: <ImageIcon size={16} /> },
+    { id: 'film-negative', nameKey: 'preset_negative', icon: <Scissors size={16} /> },
+    { id: 'cinema', nameKey: 'preset_cinema', icon: <Aperture size={16} /> },
   ];
 
   const FILTERS: Filter[] = [
@@ -231,30 +778,11 @@ export default function App() {
     { id: 'soft', nameKey: 'filter_soft' },
     { id: 'black-mist', nameKey: 'filter_black_mist' },
     { id: 'dreamy', nameKey: 'filter_dreamy' },
+    { id: 'halation', nameKey: 'filter_halation' },
+    { id: 'bloom', nameKey: 'filter_bloom' },
   ];
 
   // -- Helpers --
-  const extractColors = useCallback((imgElement: HTMLImageElement): Color[] => {
-    const c = document.createElement('canvas');
-    const ctx = c.getContext('2d');
-    if (!ctx) return [];
-    
-    c.width = 50; c.height = 50;
-    ctx.drawImage(imgElement, 0, 0, 50, 50);
-    const data = ctx.getImageData(0, 0, 50, 50).data;
-    let colors: Color[] = [];
-    for (let i = 0; i < data.length; i += 4 * 40) {
-        const r = data[i], g = data[i+1], b = data[i+2];
-        if ((r+g+b) > 40 && (r+g+b) < 700) colors.push({r,g,b});
-    }
-    const result: Color[] = [];
-    const step = Math.floor(colors.length / 5);
-    for(let i=0; i<5; i++) {
-        if (colors[i*step]) result.push(colors[i*step]);
-    }
-    return result;
-  }, []);
-
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []) as File[];
     if (files.length > 0) processFiles(files);
@@ -262,18 +790,23 @@ export default function App() {
 
   const processFiles = (files: File[]) => {
     files.forEach(file => {
+      // EXIF is parsed from the raw bytes in parallel with the image decode
+      const exifPromise = file.arrayBuffer().then(readExif).catch(() => null);
       const reader = new FileReader();
       reader.onload = (event) => {
         const img = new Image();
-        img.onload = () => {
-          const colors = extractColors(img);
+        img.onload = async () => {
+          const samples = samplePhoto({ src: img, metrics: { width: img.width, height: img.height } });
+          const exif = await exifPromise;
           setQueue(prev => {
             const newQueue = [...prev, {
                 id: Date.now() + Math.random(),
                 file,
                 src: img,
                 metrics: { width: img.width, height: img.height },
-                colors
+                samples,
+                seed: hashSeed(`${file.name}:${file.size}:${file.lastModified}`),
+                exif
             }];
             if (prev.length === 0) setCurrentIndex(0);
             return newQueue;
@@ -293,356 +826,670 @@ export default function App() {
     else if (newQueue.length === 0) setCurrentIndex(-1);
   };
 
-  // -- Logic: Calculate Margins --
-  const getCalculatedMargins = (width: number, height: number): Margins => {
-      const maxDim = Math.max(width, height);
-      if (borderMode === 'simple') {
-          const px = (scale / 100) * maxDim;
-          return { top: px, bottom: px, left: px, right: px };
+  // -- Logic: Per-image Settings --
+  const updateItem = (id: number, patch: Partial<QueueItem>) => {
+      setQueue(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const patchSettings = (apply: (settings: RenderSettings) => RenderSettings) => {
+      if (currentImage?.settings) {
+          updateItem(currentImage.id, { settings: apply(currentImage.settings) });
       } else {
-          return {
-              top: (margins.top / 100) * maxDim,
-              bottom: (margins.bottom / 100) * maxDim,
-              left: (margins.left / 100) * maxDim,
-              right: (margins.right / 100) * maxDim
-          };
+          setGlobalSettings(prev => apply(prev));
+      }
+  };
+
+  const updateSettings = <K extends SettingsSection>(section: K, patch: Partial<RenderSettings[K]>) => {
+      patchSettings(settings => ({
+          ...settings,
+          [section]: { ...settings[section], ...patch }
+      }));
+  };
+
+  const updateTarget = (patch: Partial<TargetCanvas>) => {
+      updateSettings('border', { target: { ...activeSettings.border.target, ...patch } });
+  };
+
+  // -- Logic: Captions --
+  const setCaptions = (update: (captions: CaptionLine[]) => CaptionLine[]) => {
+      patchSettings(settings => ({ ...settings, style: { ...settings.style, captions: update(settings.style.captions) } }));
+  };
+
+  const updateCaption = (index: number, patch: Partial<CaptionLine>) => {
+      setCaptions(captions => captions.map((line, i) => i === index ? { ...line, ...patch } : line));
+  };
+
+  const addCaption = () => {
+      setCaptions(captions => [...captions, {
+          template: '{focal}mm  f/{aperture}  {shutter}s  ISO{iso}', slot: 'bottom-center', font: 'body',
+          weight: 400, italic: false, uppercase: false, size: 0.8, tracking: 0, opacity: 0.8
+      }]);
+  };
+
+  const moveCaption = (index: number, delta: number) => {
+      setCaptions(captions => {
+          const target = index + delta;
+          if (target < 0 || target >= captions.length) return captions;
+          const next = [...captions];
+          [next[index], next[target]] = [next[target], next[index]];
+          return next;
+      });
+  };
+
+  const removeCaption = (index: number) => setCaptions(captions => captions.filter((_, i) => i !== index));
+
+  // -- Logic: Lens --
+  const updateLens = (patch: Partial<LensSettings>) => updateSettings('optics', { lens: { ...optics.lens, ...patch } });
+
+  // -- Logic: LUT --
+  const updateLut = (patch: Partial<LutSettings>) => updateSettings('optics', { lut: { ...optics.lut, ...patch } });
+
+  const uploadLut = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const parsed = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+          const lut: CubeLut = { id: `lut-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`, ...parsed };
+          setUserLuts(prev => [...prev, lut]);
+          saveRecord(DB_STORES.luts, lut);
+          updateLut({ id: lut.id });
+      } catch {
+          alert(t('lut_failed'));
+      }
+  };
+
+  const removeLut = (id: string) => {
+      setUserLuts(prev => prev.filter(lut => lut.id !== id));
+      deleteRecord(DB_STORES.luts, id);
+      if (optics.lut.id === id) updateLut({ id: '' });
+  };
+
+  // -- Logic: Light Leak --
+  const updateLightLeak = (patch: Partial<LeakSettings>) => updateSettings('optics', { lightLeak: { ...lightLeak, ...patch } });
+
+  // -- Logic: Composition --
+  const toggleComposing = () => {
+      if (!composing && compositionIds.length === 0 && currentImage) setCompositionIds([currentImage.id]);
+      setComposing(!composing);
+  };
+
+  // Picking a photo adds it after the others; picking it again takes it out
+  const toggleCompositionItem = (id: number) => {
+      setCompositionIds(prev => prev.includes(id)
+          ? prev.filter(other => other !== id)
+          : prev.length < MAX_COMPOSITION ? [...prev, id] : prev);
+  };
+
+  const updateComposition = (patch: Partial<CompositionSettings>) => setComposition(prev => ({ ...prev, ...patch }));
+
+  // -- Logic: Mat --
+  const updateMat = (patch: Partial<MatSettings>) => updateSettings('border', { mat: { ...border.mat, ...patch } });
+
+  // -- Logic: Quartz Date --
+  const updateQuartz = (patch: Partial<QuartzSettings>) => updateSettings('quartz', patch);
+
+  // -- Logic: Film --
+  const updateFilm = (patch: Partial<FilmSettings>) => updateSettings('film', patch);
+
+  // -- Logic: Logo --
+  const updateLogo = (patch: Partial<LogoSettings>) => updateSettings('logo', patch);
+
+  const uploadLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const dataUrl = await readFileAsDataUrl(file);
+          // Decode up front so a broken file is reported instead of silently dropped
+          (await decodeLogo(dataUrl)).close();
+          setCustomLogo(dataUrl);
+          updateLogo({ enabled: true, brand: 'custom' });
+      } catch {
+          alert(t('logo_failed'));
       }
   };
 
+  // -- Logic: Watermark --
+  const updateWatermark = (patch: Partial<WatermarkSettings>) => setWatermark(prev => ({ ...prev, ...patch }));
+
+  const uploadWatermark = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const dataUrl = await readFileAsDataUrl(file);
+          (await decodeLogo(dataUrl, WATERMARK_EDGE)).close();
+          setWatermarkImage(dataUrl);
+          updateWatermark({ enabled: true, kind: 'image' });
+      } catch {
+          alert(t('watermark_failed'));
+      }
+  };
+
+  // Proofs are stamped at an angle, so tiling starts from a diagonal
+  const toggleWatermarkTiled = () => {
+      updateWatermark(watermark.tiled
+          ? { tiled: false }
+          : { tiled: true, rotation: watermark.rotation === 0 ? -30 : watermark.rotation });
+  };
+
+  // -- Logic: Presets --
+  const selectBuiltinPreset = (id: string) => {
+      patchSettings(settings => ({ ...settings, preset: id, style: BUILTIN_STYLES[id] }));
+  };
+
+  const selectUserPreset = (preset: UserPreset) => {
+      patchSettings(settings => applyUserPreset(preset, settings));
+  };
+
+  const saveUserPreset = () => {
+      const name = presetName.trim() || `${t('presets')} ${userPresets.length + 1}`;
+      const preset = createUserPreset(name, activeSettings);
+      setUserPresets(prev => [...prev, preset]);
+      patchSettings(settings => ({ ...settings, preset: preset.id }));
+      setPresetName('');
+  };
+
+  const renameUserPreset = (id: string, name: string) => {
+      setUserPresets(prev => prev.map(p => p.id === id ? { ...p, name: name.trim() || p.name } : p));
+      setEditingPresetId(null);
+  };
+
+  const moveUserPreset = (index: number, delta: number) => {
+      setUserPresets(prev => {
+          const target = index + delta;
+          if (target < 0 || target >= prev.length) return prev;
+          const next = [...prev];
+          [next[index], next[target]] = [next[target], next[index]];
+          return next;
+      });
+  };
+
+  const deleteUserPreset = (id: string) => {
+      setUserPresets(prev => prev.filter(p => p.id !== id));
+  };
+
+  const exportUserPresets = () => {
+      downloadBlob(new Blob([serializePresets(userPresets)], { type: 'application/json' }), 'lumina-presets.json');
+  };
+
+  const importUserPresets = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const imported = parsePresetFile(await file.text());
+          setUserPresets(prev => [...prev, ...imported]);
+      } catch {
+          alert(t('import_failed'));
+      }
+  };
+
+  // -- Logic: Crop --
+  // Crops belong to the photo, not the look, so they never follow global settings
+  const updateCrop = (patch: Partial<CropSettings>) => {
+      if (!currentImage) return;
+      const next = { ...currentImage, crop: { ...crop, ...patch } };
+      updateItem(currentImage.id, { crop: next.crop, samples: samplePhoto(next) });
+  };
+
+  const resetCrop = () => {
+      if (!currentImage) return;
+      updateItem(currentImage.id, { crop: undefined, samples: samplePhoto({ ...currentImage, crop: undefined }) });
+  };
+
+  // Detach the selected image from the global settings (or re-attach it)
+  const toggleItemOverride = () => {
+      if (!currentImage) return;
+      updateItem(currentImage.id, { settings: currentImage.settings ? undefined : { ...globalSettings } });
+  };
+
+  // The active look becomes the global one and every override is dropped
+  const applySettingsToAll = () => {
+      setGlobalSettings(activeSettings);
+      setQueue(prev => prev.map(item => ({ ...item, settings: undefined })));
+  };
+
+  const copySettings = () => setSettingsClipboard(activeSettings);
+
+  const pasteSettings = () => {
+      if (!currentImage || !settingsClipboard) return;
+      updateItem(currentImage.id, { settings: { ...settingsClipboard } });
+  };
+
+  const getItemSettings = useCallback((item: QueueItem): RenderSettings => item.settings ?? globalSettings, [globalSettings]);
+
+  // -- Logic: Per-image Metadata --
+  // Settings values < EXIF of the photo < automatic quartz date < manual per-image overrides
+  const resolveMetadata = useCallback((item: QueueItem | null): Metadata => {
+      if (!item) return globalSettings.metadata;
+      const settings = getItemSettings(item);
+      const { quartz } = settings;
+      return {
+          ...settings.metadata,
+          ...(item.exif ? exifToMarkings(item.exif) : {}),
+          ...(quartz.auto ? { quartzDate: formatQuartzDate(getCaptureDate(item), quartz.format, quartz.yearOffset) } : {}),
+          ...item.metadataOverrides
+      };
+  }, [globalSettings, getItemSettings]);
+
+  // Settings with the markings resolved for this particular photo; `index` is its place in the queue,
+  // which numbers the frame on the film
+  const buildRenderSettings = useCallback((item: QueueItem, index = 0): RenderSettings => {
+      const settings = getItemSettings(item);
+      return {
+          ...settings,
+          film: { ...settings.film, frame: settings.film.frame + index },
+          metadata: resolveMetadata(item)
+      };
+  }, [getItemSettings, resolveMetadata]);
+
+  const updateMetadataField = (field: keyof Metadata, value: string) => {
+      if (!currentImage || !PER_IMAGE_FIELDS.includes(field)) {
+          updateSettings('metadata', { [field]: value });
+          return;
+      }
+      updateItem(currentImage.id, { metadataOverrides: { ...currentImage.metadataOverrides, [field]: value } });
+  };
+
+  const resetMetadataOverrides = () => {
+      if (!currentImage) return;
+      updateItem(currentImage.id, { metadataOverrides: undefined });
+  };
+
+  const currentMetadata = resolveMetadata(currentImage);
+  const detectedBrand = detectBrand(currentMetadata.make, currentMetadata.camera);
+
+  // Shared images the renderer draws next to the photo; stable identity so renders are not retriggered
+  const frameAssets = useMemo<FrameAssets>(() => ({
+      logo: customLogoBitmap ?? undefined,
+      watermark: watermarkBitmap ?? undefined,
+      luts: Object.fromEntries(userLuts.map(lut => [lut.id, lut])),
+  }), [customLogoBitmap, watermarkBitmap, userLuts]);
+
   // -- Render Core --
-  const renderToCanvas = useCallback((canvas: HTMLCanvasElement, item: QueueItem | null) => {
+  // maxEdge > 0 renders the whole frame smaller instead of resampling the finished canvas
+  const renderToCanvas = useCallback((canvas: HTMLCanvasElement, item: QueueItem | null, maxEdge = 0, index = 0) => {
     return new Promise<void>((resolve) => {
         if (!item || !item.src) return resolve();
-        
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return resolve();
+        const settings = buildRenderSettings(item, index);
+        const { width, height } = getPhotoSize(item);
+        const colors = extractPalette(item.samples, settings.palette);
+        const { scale, canvasSize } = getExportSize(width, height, colors, settings, maxEdge);
+        renderFrame(canvas, {
+            source: item.src,
+            assets: frameAssets,
+            crop: item.crop,
+            width: Math.round(width * scale),
+            height: Math.round(height * scale),
+            scale,
+            canvasSize,
+            colors,
+            seed: item.seed,
+            watermark
+        }, settings);
+        resolve();
+    });
+  }, [buildRenderSettings, frameAssets, watermark]);
 
-        const { src: img, metrics, colors } = item;
-        
-        const originalW = metrics.width;
-        const originalH = metrics.height;
-        const maxDim = Math.max(originalW, originalH);
-        
-        // 1. Margin Calculation (Applied to ALL presets now)
-        const m = getCalculatedMargins(originalW, originalH);
-        
-        let canvasW, canvasH, drawX, drawY;
-        
-        // 2. Layout Strategies
-        // NOTE: Now all presets respect the calculated margins 'm' to allow geometry adjustment.
-        
-        // Standard / Gallery / Cinema / Negative / Polaroid Base Calculation
-        canvasW = originalW + m.left + m.right;
-        canvasH = originalH + m.top + m.bottom;
-        drawX = m.left;
-        drawY = m.top;
-
-        // Special adjustments for specific presets to maintain their "vibe" while allowing scaling
-        if (borderType === 'cinema') {
-            // Cinema usually has black bars on top/bottom primarily, but we respect user input.
-            // If user sets 0 margins, they get 0 bars.
-        }
-        
-        // Auto-expand bottom for text ONLY if in Simple mode and not cinema/negative special cases
-        // (Unless user explicitly switched to advanced, where they control margins manually)
-        if (borderMode === 'simple') {
-            if (borderType === 'polaroid') {
-                // Polaroid needs extra bottom
-                const extraBottom = maxDim * 0.2; 
-                canvasH += extraBottom;
-                // Polaroid typically has equal margins on top/sides in simple mode
-                // m already has uniform values
-            } else if (metadata.showMetadata || paletteEnabled || signatureEnabled) {
-                // For gallery, add space for text if enabled
-                 if (borderType !== 'cinema' && borderType !== 'film-negative') {
-                    canvasH += (maxDim * 0.06); 
-                 }
-            }
-        }
+  // -- Composition --
+  // Photos in pick order, as many as the layout holds; photos removed from the queue drop out
+  const compositionItems = useMemo(() => compositionIds
+      .map(id => queue.find(item => item.id === id))
+      .filter((item): item is QueueItem => !!item)
+      .slice(0, COMPOSITION_LAYOUTS[composition.layout].max), [compositionIds, queue, composition.layout]);
+  const compositionReady = composing && compositionItems.length >= MIN_COMPOSITION;
 
-        canvas.width = canvasW;
-        canvas.height = canvasH;
+  const compositionCells = useMemo(() => compositionItems.map(item => ({
+      source: item.src,
+      crop: item.crop,
+      ...getPhotoSize(item)
+  })), [compositionItems]);
 
-        const preset = PRESETS.find(p => p.id === borderType);
-        
-        // 3. Background
-        ctx.fillStyle = preset ? preset.bg : '#ffffff';
-        ctx.fillRect(0, 0, canvasW, canvasH);
-
-        // 4. Texture (Noise) - CLIPPED TO IMAGE
-        if (textureEnabled && borderType !== 'cinema') {
-            ctx.save();
-            ctx.beginPath();
-            ctx.rect(drawX, drawY, originalW, originalH);
-            ctx.clip();
-            
-            const noiseSize = 128; 
-            const noiseCanvas = document.createElement('canvas');
-            noiseCanvas.width = noiseSize; noiseCanvas.height = noiseSize;
-            const nCtx = noiseCanvas.getContext('2d');
-            if (nCtx) {
-                for(let i=0; i<noiseSize; i+=2) {
-                    for(let j=0; j<noiseSize; j+=2) {
-                        if (Math.random() > 0.5) {
-                            nCtx.fillStyle = (borderType === 'simple-black' || borderType === 'film-negative') 
-                                ? 'rgba(255,255,255,0.03)' 
-                                : 'rgba(0,0,0,0.02)';
-                            nCtx.fillRect(i, j, 1, 1);
-                        }
-                    }
-                }
-                const pattern = ctx.createPattern(noiseCanvas, 'repeat');
-                if (pattern) {
-                    ctx.fillStyle = pattern;
-                    ctx.fillRect(drawX, drawY, originalW, originalH); // Draw only in image area
-                }
-            }
-            ctx.restore();
-        }
+  // One sample array for all photos, kept stable so the palette cache holds on to it
+  const compositionSamples = useMemo(() => {
+      const samples = new Float32Array(compositionItems.reduce((n, item) => n + item.samples.length, 0));
+      let offset = 0;
+      compositionItems.forEach(item => {
+          samples.set(item.samples, offset);
+          offset += item.samples.length;
+      });
+      return samples;
+  }, [compositionItems]);
 
-        // 5. Sprockets (For Negative) - Draw in margins
-        if (borderType === 'film-negative') {
-            ctx.fillStyle = '#e5e5e5'; 
-            // Scale sprockets based on the available margin height
-            const marginH = Math.min(m.top, m.bottom);
-            if (marginH > 5) {
-                const holeH = marginH * 0.6; // 60% of margin height
-                const holeW = holeH * 1.4;
-                const holeGap = holeW * 1.5;
-                
-                const topY = (m.top - holeH) / 2;
-                const bottomY = canvasH - m.bottom + (m.bottom - holeH) / 2;
-                
-                // Draw only if there is enough space
-                if (topY >= 0) {
-                    for(let x = 0; x < canvasW; x += holeGap) {
-                        ctx.beginPath();
-                        if (ctx.roundRect) {
-                            ctx.roundRect(x, topY, holeW, holeH, 2);
-                            ctx.roundRect(x, bottomY, holeW, holeH, 2);
-                        } else {
-                            ctx.rect(x, topY, holeW, holeH);
-                            ctx.rect(x, bottomY, holeW, holeH);
-                        }
-                        ctx.fill();
-                    }
-                }
-            }
-        }
+  // The composition takes the look shown in the sidebar and the captions of its first photo
+  const buildCompositionSettings = useCallback((): RenderSettings => {
+      const first = compositionItems[0];
+      return {
+          ...activeSettings,
+          film: { ...activeSettings.film, frame: activeSettings.film.frame + Math.max(0, queue.indexOf(first)) },
+          metadata: resolveMetadata(first)
+      };
+  }, [activeSettings, compositionItems, queue, resolveMetadata]);
 
-        // 6. Shadow (Behind image)
-        if (shadowEnabled && borderType !== 'cinema' && borderType !== 'film-negative' && preset) {
-            ctx.save();
-            ctx.shadowColor = "rgba(0, 0, 0, 0.25)";
-            ctx.shadowBlur = canvasW * 0.02;
-            ctx.shadowOffsetX = canvasW * 0.005;
-            ctx.shadowOffsetY = canvasW * 0.005;
-            ctx.fillStyle = preset.bg; 
-            ctx.fillRect(drawX, drawY, originalW, originalH);
-            ctx.restore();
-        }
+  // Gutters take the border colour the frame will end up with
+  const getCompositionFill = (settings: RenderSettings) =>
+      resolveFrameColors(settings.style, settings.background, extractPalette(compositionSamples, settings.palette)).bg;
+  const compositionFill = compositionReady ? getCompositionFill(activeSettings) : null;
 
-        // 7. Draw Image
-        ctx.drawImage(img, drawX, drawY, originalW, originalH);
+  // Arranged at preview size only when photos, layout or gutter colour change; the worker frames it like a photo
+  const compositionPreview = useMemo(() => {
+      if (!compositionFill) return null;
+      const native = getCompositionSize(compositionCells, composition);
+      const size = getCompositionSize(compositionCells, composition, getPreviewEdge());
+      return {
+          source: renderComposition(compositionCells, composition, size.width, size.height, compositionFill),
+          ...size,
+          scale: size.width / native.width
+      };
+  }, [compositionCells, composition, compositionFill]);
 
-        // 8. Optical Filters - CLIPPED TO IMAGE
-        if (filterType !== 'none') {
-            ctx.save();
-            // Clip to image area to prevent filter bleeding onto border
-            ctx.beginPath();
-            ctx.rect(drawX, drawY, originalW, originalH);
-            ctx.clip();
-            
-            const relativeBlur = (filterRadius / 1000) * Math.max(canvasW, canvasH);
-            
-            if (filterType === 'soft') {
-                ctx.globalCompositeOperation = 'screen'; 
-                ctx.globalAlpha = filterStrength;
-                ctx.filter = `blur(${Math.max(1, relativeBlur)}px)`;
-                ctx.drawImage(img, drawX, drawY, originalW, originalH);
-            } 
-            else if (filterType === 'black-mist') {
-                ctx.globalCompositeOperation = 'lighten'; 
-                ctx.globalAlpha = filterStrength * 0.8; 
-                ctx.filter = `blur(${Math.max(1, relativeBlur * 0.5)}px)`;
-                ctx.drawImage(img, drawX, drawY, originalW, originalH);
-            }
-            else if (filterType === 'dreamy') {
-                ctx.globalCompositeOperation = 'screen'; 
-                ctx.globalAlpha = filterStrength; 
-                ctx.filter = `blur(${Math.max(2, relativeBlur * 2)}px)`;
-                ctx.drawImage(img, drawX, drawY, originalW, originalH);
-            }
-            ctx.restore();
-        }
+  // Pixel size of what the stage shows, before framing
+  const stageSize = compositionReady ? getCompositionSize(compositionCells, composition) : currentImage ? getPhotoSize(currentImage) : null;
 
-        // 9. Quartz Date
-        if (quartzEnabled) {
-            ctx.save();
-            // Quartz date usually on the photo itself
-            const qFontSize = Math.max(originalW, originalH) * 0.04;
-            ctx.font = `bold ${qFontSize}px "Courier New", monospace`;
-            const dateText = metadata.quartzDate;
-            const qX = drawX + originalW - (qFontSize * 0.8);
-            const qY = drawY + originalH - (qFontSize * 0.8);
-            
-            ctx.textAlign = 'right';
-            ctx.textBaseline = 'bottom';
-            ctx.shadowColor = '#ff5500'; 
-            ctx.shadowBlur = qFontSize * 0.4;
-            ctx.fillStyle = '#ffaa33'; 
-            ctx.fillText(dateText, qX, qY);
-            
-            ctx.shadowBlur = 0;
-            ctx.fillStyle = 'rgba(255, 200, 100, 0.9)';
-            ctx.fillText(dateText, qX, qY);
-            ctx.restore();
-        }
+  const renderCompositionToCanvas = (canvas: HTMLCanvasElement, maxEdge = 0) => {
+      const settings = buildCompositionSettings();
+      const colors = extractPalette(compositionSamples, settings.palette);
+      const { width, height } = getCompositionSize(compositionCells, composition);
+      const { scale, canvasSize } = getExportSize(width, height, colors, settings, maxEdge);
+      const w = Math.round(width * scale), h = Math.round(height * scale);
+      renderFrame(canvas, {
+          source: renderComposition(compositionCells, composition, w, h, getCompositionFill(settings)),
+          assets: frameAssets,
+          width: w,
+          height: h,
+          scale,
+          canvasSize,
+          colors,
+          seed: compositionItems[0].seed,
+          watermark
+      }, settings);
+  };
 
-        // 10. Light Leaks - CLIPPED TO IMAGE
-        if (leakEnabled) {
-            ctx.save();
-            ctx.beginPath();
-            ctx.rect(drawX, drawY, originalW, originalH);
-            ctx.clip();
-            
-            ctx.globalCompositeOperation = 'screen'; 
-            const grad1 = ctx.createLinearGradient(drawX, drawY, drawX + (originalW * 0.4), drawY + originalH);
-            grad1.addColorStop(0, 'rgba(255, 140, 0, 0.3)'); 
-            grad1.addColorStop(1, 'rgba(0,0,0,0)');
-            ctx.fillStyle = grad1;
-            ctx.fillRect(drawX, drawY, originalW, originalH);
-            ctx.restore();
-        }
+  // -- Side Effects --
+  useEffect(() => {
+    saveJSON(STORAGE_KEYS.exportSettings, exportSettings);
+  }, [exportSettings]);
 
-        // 11. Typography & Palette
-        const baseFontSize = Math.max(canvasW, canvasH) * 0.016; 
-        const serifFont = "Times New Roman, serif";
-        const sansFont = "Helvetica Neue, sans-serif";
-        const cursiveFont = "Brush Script MT, cursive"; 
+  useEffect(() => {
+    saveJSON(STORAGE_KEYS.userPresets, userPresets);
+  }, [userPresets]);
 
-        // Calculate text position based on layout
-        // For standard/polaroid in simple mode where we auto-added space, text goes in that space.
-        // For others, it tries to fit in bottom margin.
-        
-        // Center text in the bottom margin area
-        let textCursorY = drawY + originalH + (m.bottom / 2);
-        
-        // Special case adjustment for Polaroid which has a large bottom
-        if (borderType === 'polaroid') {
-            // In polaroid, text is usually in the bottom wide area.
-            // If simple mode, we added extra height. If advanced, user made it.
-            // We'll aim for the middle of the bottom area.
-             const bottomSpace = canvasH - (drawY + originalH);
-             textCursorY = drawY + originalH + (bottomSpace / 2);
-        }
+  useEffect(() => {
+    let cancelled = false;
+    loadRecords<CubeLut>(DB_STORES.luts).then(luts => {
+        if (!cancelled) setUserLuts(luts);
+    });
+    return () => { cancelled = true; };
+  }, []);
 
-        if (paletteEnabled && colors && colors.length > 0 && borderType !== 'cinema') {
-            const paletteY = textCursorY - (baseFontSize * 2.5);
-            const circleSize = baseFontSize * 1.2;
-            const gap = circleSize * 1.5;
-            let startX;
-            if (borderType === 'polaroid') {
-                startX = drawX + (circleSize/2); 
-            } else {
-                startX = (canvasW / 2) - ((colors.length * gap) / 2) + (gap/2); 
-            }
-            colors.forEach((color, i) => {
-                ctx.beginPath();
-                ctx.fillStyle = `rgb(${color.r},${color.g},${color.b})`;
-                ctx.arc(startX + (i * gap), paletteY, circleSize/2, 0, Math.PI * 2);
-                ctx.fill();
-            });
-            // Shift text down if palette is present
-            textCursorY += (baseFontSize * 1);
-        }
+  useEffect(() => {
+    saveJSON(STORAGE_KEYS.customLogo, customLogo);
+    if (!customLogo) {
+        setCustomLogoBitmap(null);
+        return;
+    }
+    let cancelled = false;
+    decodeLogo(customLogo).then(bitmap => {
+        if (cancelled) bitmap.close();
+        else setCustomLogoBitmap(bitmap);
+    }).catch(() => {
+        if (cancelled) return;
+        setCustomLogo(null);
+        alert(t('logo_failed'));
+    });
+    return () => { cancelled = true; };
+  }, [customLogo]);
 
-        if (metadata.showMetadata) {
-            ctx.fillStyle = preset ? preset.text : '#000000';
-            
-            if (borderType === 'polaroid') {
-                ctx.textAlign = 'left'; ctx.textBaseline = 'middle';
-                ctx.font = `italic ${baseFontSize * 1.8}px ${serifFont}`;
-                ctx.fillText(metadata.camera, drawX, textCursorY);
-                
-                if (signatureEnabled) {
-                    ctx.textAlign = 'right';
-                    ctx.font = `${baseFontSize * 2.5}px ${cursiveFont}`;
-                    ctx.fillText(metadata.signature, drawX + originalW, textCursorY);
-                } else {
-                    ctx.textAlign = 'right';
-                    ctx.font = `${baseFontSize * 0.9}px ${sansFont}`;
-                    ctx.globalAlpha = 0.6;
-                    ctx.fillText(metadata.date, drawX + originalW, textCursorY);
-                }
-            } else if (borderType === 'cinema') {
-                ctx.textAlign = 'center';
-                ctx.font = `${baseFontSize * 0.7}px ${sansFont}`;
-                ctx.letterSpacing = "4px"; 
-                // Draw in the black bar below image
-                ctx.fillText(`${metadata.camera}  //  ${metadata.settings}`.toUpperCase(), canvasW / 2, drawY + originalH + (m.bottom / 2));
-            } else {
-                // Gallery
-                ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
-                
-                ctx.font = `bold ${baseFontSize * 1.2}px ${serifFont}`;
-                ctx.fillText(metadata.camera.toUpperCase(), canvasW / 2, textCursorY - (baseFontSize * 0.9));
-                
-                ctx.font = `${baseFontSize * 0.8}px ${sansFont}`;
-                ctx.globalAlpha = 0.7; 
-                ctx.fillText(`${metadata.lens}  |  ${metadata.settings}  |  ${metadata.date}`, canvasW / 2, textCursorY + (baseFontSize * 0.9));
-                ctx.globalAlpha = 1.0;
-
-                if (signatureEnabled) {
-                    ctx.save();
-                    ctx.textAlign = 'right';
-                    ctx.font = `${baseFontSize * 2.0}px ${cursiveFont}`;
-                    ctx.fillStyle = '#000000';
-                    // Position signature in bottom right of the margin
-                    const sigX = canvasW - (Math.min(m.right, m.bottom) * 0.5) - (maxDim * 0.02);
-                    const sigY = canvasH - (m.bottom * 0.3) - (maxDim * 0.02);
-                    ctx.fillText(metadata.signature, sigX, sigY);
-                    ctx.restore();
-                }
-            }
-        }
-        resolve();
+  useEffect(() => {
+    saveJSON(STORAGE_KEYS.watermark, watermark);
+  }, [watermark]);
+
+  useEffect(() => {
+    saveJSON(STORAGE_KEYS.watermarkImage, watermarkImage);
+    if (!watermarkImage) {
+        setWatermarkBitmap(null);
+        return;
+    }
+    let cancelled = false;
+    decodeLogo(watermarkImage, WATERMARK_EDGE).then(bitmap => {
+        if (cancelled) bitmap.close();
+        else setWatermarkBitmap(bitmap);
+    }).catch(() => {
+        if (cancelled) return;
+        setWatermarkImage(null);
+        alert(t('watermark_failed'));
     });
-  }, [borderType, borderMode, scale, margins, metadata, paletteEnabled, signatureEnabled, shadowEnabled, textureEnabled, leakEnabled, filterType, filterStrength, filterRadius, quartzEnabled]);
+    return () => { cancelled = true; };
+  }, [watermarkImage]);
+
+  useEffect(() => {
+    const client = createRenderClient();
+    renderClientRef.current = client;
+    return () => {
+        client.dispose();
+        renderClientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    renderClientRef.current?.retain(queue.map(item => item.id));
+  }, [queue]);
 
-  // -- Side Effects --
   useEffect(() => {
-    if (!currentImage || !canvasRef.current) return;
-    renderToCanvas(canvasRef.current, currentImage).then(() => {
-        if(canvasRef.current) {
-            setPreviewUrl(canvasRef.current.toDataURL('image/jpeg', 0.8));
+    const client = renderClientRef.current;
+    if (!currentImage) {
+        setHasPreview(false);
+        return;
+    }
+    if (!client) return;
+    const timer = setTimeout(() => {
+        let render: Promise<ImageBitmap | null>;
+        if (compositionPreview) {
+            const settings = buildCompositionSettings();
+            render = client.render(COMPOSITION_ID, {
+                ...compositionPreview,
+                assets: frameAssets,
+                colors: extractPalette(compositionSamples, settings.palette),
+                seed: compositionItems[0].seed,
+                watermark
+            }, settings, getPreviewEdge());
+        } else {
+            render = client.render(currentImage.id, {
+                source: currentImage.src,
+                assets: frameAssets,
+                crop: currentImage.crop,
+                ...getPhotoSize(currentImage),
+                colors: extractPalette(currentImage.samples, getItemSettings(currentImage).palette),
+                seed: currentImage.seed,
+                watermark
+            }, buildRenderSettings(currentImage, currentIndex), getPreviewEdge());
         }
-    });
-  }, [currentImage, renderToCanvas]);
+        render.then(bitmap => {
+            // null: superseded by a newer render
+            if (!bitmap) return;
+            const ctx = previewCanvasRef.current?.getContext('bitmaprenderer');
+            if (!ctx) {
+                bitmap.close();
+                return;
+            }
+            ctx.transferFromImageBitmap(bitmap);
+            setHasPreview(true);
+            setPreviewFailed(false);
+        }).catch(() => setPreviewFailed(true));
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [currentImage, currentIndex, frameAssets, watermark, compositionPreview, compositionSamples, compositionItems, getItemSettings, buildRenderSettings, buildCompositionSettings]);
+
+  // -- Export --
+  const updateExportSettings = (patch: Partial<ExportSettings>) => {
+      setExportSettings(prev => ({ ...prev, ...patch }));
+  };
+
+  // Re-embeds the source's EXIF/ICC segments; non-JPEG sources pass through untouched
+  const withSourceMetadata = async (blob: Blob, item: QueueItem, width: number, height: number) => {
+      const source = extractJpegMetadata(await item.file.arrayBuffer());
+      if (!source || (!source.exif && source.icc.length === 0)) return blob;
+      const exif = source.exif && patchExifSegment(source.exif, {
+          width,
+          height,
+          stripLocation: exportSettings.stripLocation
+      });
+      return embedJpegMetadata(await blob.arrayBuffer(), { exif, icc: source.icc });
+  };
+
+  // Rounded canvases have transparent corners, so they are always written as PNG
+  const getExportFormat = (settings: RenderSettings): ExportFormat =>
+      hasRoundedCanvas(settings.border) ? 'png' : exportSettings.format;
+
+  // Full-resolution render of one queue item, encoded with the export settings
+  const exportItem = async (item: QueueItem, index: number) => {
+      const { quality, maxEdge, filenameTemplate } = exportSettings;
+      const format = getExportFormat(getItemSettings(item));
+      const exportCanvas = document.createElement('canvas');
+      await renderToCanvas(exportCanvas, item, maxEdge, index);
+      let blob = await canvasToBlob(exportCanvas, EXPORT_FORMATS[format].mime, quality);
+      if (format === 'jpeg' && exportSettings.keepMetadata) {
+          blob = await withSourceMetadata(blob, item, exportCanvas.width, exportCanvas.height);
+      }
+      const meta = resolveMetadata(item);
+      const filename = formatFilename(filenameTemplate, {
+          name: item.file.name,
+          index: index + 1,
+          preset: getItemSettings(item).preset,
+          camera: meta.camera,
+          date: meta.date
+      }, format);
+      return { blob, filename };
+  };
 
   // -- Batch --
   const handleBatchExport = async () => {
     if (queue.length === 0 || isBatchProcessing) return;
     setIsBatchProcessing(true);
-    const wait = (ms: number) => new Promise(res => setTimeout(res, ms));
-    for (let i = 0; i < queue.length; i++) {
-       const exportCanvas = document.createElement('canvas');
-       await renderToCanvas(exportCanvas, queue[i]);
-       const link = document.createElement('a');
-       link.download = `LUMINA_BATCH_${i+1}.jpg`;
-       link.href = exportCanvas.toDataURL('image/jpeg', 0.95);
-       link.click();
-       await wait(800);
+    setBatchReport(null);
+    batchCancelRef.current = false;
+
+    const items = [...queue];
+    const entries: ZipEntry[] = [];
+    const takenNames = new Set<string>();
+    const failures: BatchReport['failures'] = [];
+    let exported = 0;
+
+    for (let i = 0; i < items.length; i++) {
+       if (batchCancelRef.current) break;
+       setBatchProgress({ done: i, total: items.length });
+       try {
+           const { blob, filename } = await exportItem(items[i], i);
+           const name = uniqueFilename(filename, takenNames);
+           if (zipBatch) {
+               entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+           } else {
+               downloadBlob(blob, name);
+               await wait(800);
+           }
+           exported++;
+       } catch (err) {
+           failures.push({ name: items[i].file.name, reason: err instanceof Error ? err.message : String(err) });
+       }
+       // Let the progress bar paint between frames
+       await wait(0);
     }
+
+    const cancelled = batchCancelRef.current;
+    if (zipBatch && !cancelled && entries.length > 0) {
+        downloadBlob(createZip(entries), `LUMINA_BATCH_${Date.now()}.zip`);
+    }
+    setBatchReport({ exported: cancelled && zipBatch ? 0 : exported, total: items.length, cancelled, failures });
+    setBatchProgress(null);
     setIsBatchProcessing(false);
   };
 
-  const handleSingleExport = () => {
-     if (!canvasRef.current) return;
-     const link = document.createElement('a');
-     link.download = `LUMINA_EXPORT_${Date.now()}.jpg`;
-     link.href = canvasRef.current.toDataURL('image/jpeg', 0.95);
-     link.click();
+  const cancelBatchExport = () => {
+    batchCancelRef.current = true;
+  };
+
+  const handleSingleExport = async () => {
+     if (!currentImage) return;
+     if (compositionReady) return handleCompositionExport();
+     try {
+         const { blob, filename } = await exportItem(currentImage, currentIndex);
+         downloadBlob(blob, filename);
+     } catch {
+         alert(t('export_failed'));
+     }
+  };
+
+  const handleCompositionExport = async () => {
+     const { quality, maxEdge } = exportSettings;
+     const format = getExportFormat(activeSettings);
+     try {
+         const canvas = document.createElement('canvas');
+         renderCompositionToCanvas(canvas, maxEdge);
+         const blob = await canvasToBlob(canvas, EXPORT_FORMATS[format].mime, quality);
+         downloadBlob(blob, `LUMINA_COMPOSITION_${Date.now()}.${EXPORT_FORMATS[format].ext}`);
+     } catch {
+         alert(t('composition_failed'));
+     }
+  };
+
+  // All queued photos as consecutive film strips on one sheet, numbered from the film settings
+  const handleContactSheetExport = async () => {
+     // Only photos that decoded to actual pixels get a slot on the sheet
+     const items = queue.filter(item => item.src.complete && item.src.naturalWidth > 0);
+     if (items.length === 0 || isBatchProcessing) return;
+     // The sheet has square corners whatever the frames use, so the chosen format applies as is
+     const { format, quality, maxEdge, contactFrames } = exportSettings;
+     const sheet = getContactSheetSize(items.length, contactFrames);
+     const pxPerMm = maxEdge > 0 ? Math.min(CONTACT_PX_PER_MM, maxEdge / Math.max(sheet.width, sheet.height)) : CONTACT_PX_PER_MM;
+     setIsBatchProcessing(true);
+     setBatchReport(null);
+     batchCancelRef.current = false;
+
+     const failures: BatchReport['failures'] = [];
+     let printed = 0;
+     const canvas = document.createElement('canvas');
+     const printFrame = createContactSheet(canvas, items.length, globalSettings.film, contactFrames, pxPerMm);
+     for (let i = 0; i < items.length; i++) {
+         if (batchCancelRef.current) break;
+         setBatchProgress({ done: i, total: items.length });
+         const item = items[i];
+         try {
+             const drawn = printFrame(i, {
+                 frame: {
+                     source: item.src,
+                     assets: frameAssets,
+                     crop: item.crop,
+                     ...getPhotoSize(item),
+                     colors: extractPalette(item.samples, getItemSettings(item).palette),
+                     seed: item.seed,
+                     watermark
+                 },
+                 settings: buildRenderSettings(item)
+             });
+             if (drawn) printed++;
+             else failures.push({ name: item.file.name, reason: t('contact_frame_failed') });
+         } catch (err) {
+             failures.push({ name: item.file.name, reason: err instanceof Error ? err.message : String(err) });
+         }
+         // Let the progress bar paint between frames
+         await wait(0);
+     }
+
+     const cancelled = batchCancelRef.current;
+     if (!cancelled && printed > 0) {
+         try {
+             const blob = await canvasToBlob(canvas, EXPORT_FORMATS[format].mime, quality);
+             downloadBlob(blob, `LUMINA_CONTACT_${Date.now()}.${EXPORT_FORMATS[format].ext}`);
+         } catch {
+             alert(t('contact_sheet_failed'));
+             printed = 0;
+         }
+     }
+     setBatchReport({ exported: cancelled ? 0 : printed, total: items.length, cancelled, failures });
+     setBatchProgress(null);
+     setIsBatchProcessing(false);
   };
 
   // -- UI Helpers --
@@ -723,19 +1570,90 @@ export default function App() {
                     <div className="mt-4">
                         <div className="flex items-center justify-between mb-2">
                              <h2 className="text-[10px] font-bold text-neutral-600 uppercase tracking-widest">{t('film_roll')} ({queue.length})</h2>
-                             <button onClick={() => setQueue([])} className="text-[10px] text-red-900 hover:text-red-500">{t('clear_all')}</button>
+                             <div className="flex items-center gap-3">
+                                 <button onClick={toggleComposing}
+                                     className={`flex items-center gap-1 text-[10px] transition-colors ${composing ? 'text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>
+                                     <LayoutGrid size={10} /> {t('compose')}
+                                 </button>
+                                 <button onClick={() => setQueue([])} className="text-[10px] text-red-900 hover:text-red-500">{t('clear_all')}</button>
+                             </div>
                         </div>
                         <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
                             {queue.map((item, idx) => (
-                                <div key={item.id} onClick={() => setCurrentIndex(idx)}
+                                <div key={item.id} onClick={() => { setCurrentIndex(idx); if (composing) toggleCompositionItem(item.id); }}
                                     className={`relative shrink-0 w-14 h-14 rounded overflow-hidden border-2 cursor-pointer transition-all
                                         ${idx === currentIndex ? 'border-white opacity-100' : 'border-transparent opacity-50 hover:opacity-80'}`}
                                 >
                                     <img src={item.src.src} className="w-full h-full object-cover" alt="thumb" />
                                     <button onClick={(e) => removeImage(e, idx)} className="absolute top-0 right-0 bg-black/50 text-white p-0.5"><Trash2 size={10} /></button>
+                                    {item.settings && (
+                                        <div className="absolute bottom-0 left-0 bg-orange-500 text-black p-0.5 rounded-tr"><SlidersHorizontal size={8} /></div>
+                                    )}
+                                    {composing && compositionIds.includes(item.id) && (
+                                        <div className="absolute top-0 left-0 bg-white text-black text-[9px] font-bold px-1 rounded-br">{compositionIds.indexOf(item.id) + 1}</div>
+                                    )}
                                 </div>
                             ))}
                         </div>
+                        {composing && (
+                            <div className="space-y-2 mt-1 mb-2 p-2 rounded border border-neutral-800">
+                                <div className="flex items-center justify-between text-[10px] text-neutral-500">
+                                    <span>{t('compose_hint')}</span>
+                                    <span className="font-mono">{compositionItems.length} / {COMPOSITION_LAYOUTS[composition.layout].max}</span>
+                                </div>
+                                <div className="grid grid-cols-5 gap-1">
+                                    {(Object.keys(COMPOSITION_LAYOUTS) as CompositionLayout[]).map(layout => (
+                                        <button key={layout} onClick={() => updateComposition({ layout })}
+                                            className={`text-[9px] py-1.5 rounded border transition-colors
+                                                ${composition.layout === layout ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {t(`composition_${layout}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div>
+                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('gutter')}</span><span>{composition.gutter}%</span></div>
+                                    <input type="range" min="0" max="10" step="0.25" value={composition.gutter} onChange={(e) => updateComposition({ gutter: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                </div>
+                                <div className="flex items-center justify-between gap-2">
+                                    <select value={composition.aspect} onChange={(e) => updateComposition({ aspect: e.target.value as CropAspect })}
+                                        className="bg-neutral-900 border border-neutral-800 rounded py-1 px-2 text-xs text-neutral-300 focus:outline-none">
+                                        {(Object.keys(CROP_ASPECTS) as CropAspect[]).map(aspect => (
+                                            <option key={aspect} value={aspect}>{aspect === 'original' ? t('crop_original') : aspect}</option>
+                                        ))}
+                                    </select>
+                                    <div className="flex gap-1">
+                                        {(['crop', 'contain'] as const).map(fit => (
+                                            <button key={fit} onClick={() => updateComposition({ fit })}
+                                                className={`text-[10px] px-2 py-1 rounded border transition-colors
+                                                    ${composition.fit === fit ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                                {t(`fit_${fit}`)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+                        {currentImage && (
+                            <div className="grid grid-cols-4 gap-1 mt-1">
+                                <button onClick={toggleItemOverride}
+                                    className={`flex items-center justify-center gap-1 text-[9px] py-1.5 rounded border transition-colors
+                                        ${currentImage.settings ? 'bg-orange-500 text-black border-orange-500' : 'text-neutral-400 border-neutral-800 hover:border-neutral-600'}`}>
+                                    <SlidersHorizontal size={10} /> {t('own_settings')}
+                                </button>
+                                <button onClick={copySettings}
+                                    className="flex items-center justify-center gap-1 text-[9px] py-1.5 rounded border text-neutral-400 border-neutral-800 hover:border-neutral-600">
+                                    <Copy size={10} /> {t('copy_settings')}
+                                </button>
+                                <button onClick={pasteSettings} disabled={!settingsClipboard}
+                                    className="flex items-center justify-center gap-1 text-[9px] py-1.5 rounded border text-neutral-400 border-neutral-800 hover:border-neutral-600 disabled:opacity-30">
+                                    <ClipboardPaste size={10} /> {t('paste_settings')}
+                                </button>
+                                <button onClick={applySettingsToAll}
+                                    className="flex items-center justify-center gap-1 text-[9px] py-1.5 rounded border text-neutral-400 border-neutral-800 hover:border-neutral-600">
+                                    <CheckCheck size={10} /> {t('apply_all')}
+                                </button>
+                            </div>
+                        )}
                     </div>
                 )}
             </section>
@@ -747,9 +1665,9 @@ export default function App() {
                 </h2>
                 <div className="grid grid-cols-1 gap-2">
                 {PRESETS.map((preset) => (
-                    <button key={preset.id} onClick={() => setBorderType(preset.id)}
+                    <button key={preset.id} onClick={() => selectBuiltinPreset(preset.id)}
                     className={`flex items-center justify-between px-4 py-2.5 rounded-md border transition-all duration-200 text-xs group
-                        ${borderType === preset.id 
+                        ${activeSettings.preset === preset.id 
                         ? 'bg-white text-black border-white' 
                         : 'bg-transparent text-neutral-400 border-neutral-800 hover:border-neutral-700'}`}
                     >
@@ -757,13 +1675,281 @@ export default function App() {
                         {preset.icon}
                         <span>{t(preset.nameKey)}</span>
                     </div>
-                    {borderType === preset.id && <div className="w-1.5 h-1.5 bg-black rounded-full"></div>}
+                    {activeSettings.preset === preset.id && <div className="w-1.5 h-1.5 bg-black rounded-full"></div>}
                     </button>
                 ))}
                 </div>
+
+                {/* User Presets */}
+                <div className="mt-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-[10px] font-bold text-neutral-600 uppercase tracking-widest">{t('my_presets')}</h3>
+                        <div className="flex gap-3">
+                            <label className="flex items-center gap-1 text-[10px] text-neutral-500 hover:text-white cursor-pointer">
+                                <FileUp size={10} /> {t('import_presets')}
+                                <input type="file" accept="application/json,.json" onChange={importUserPresets} className="hidden" />
+                            </label>
+                            <button onClick={exportUserPresets} disabled={userPresets.length === 0}
+                                className="flex items-center gap-1 text-[10px] text-neutral-500 hover:text-white disabled:opacity-30">
+                                <FileDown size={10} /> {t('export_presets')}
+                            </button>
+                        </div>
+                    </div>
+                    {userPresets.map((preset, idx) => (
+                        <div key={preset.id}
+                            className={`flex items-center gap-2 px-3 py-2 rounded-md border text-xs transition-all
+                                ${activeSettings.preset === preset.id ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-800 hover:border-neutral-700'}`}>
+                            <span className="w-3 h-3 rounded-full border border-neutral-500 shrink-0" style={{ background: preset.settings.style.bg }} />
+                            {editingPresetId === preset.id ? (
+                                <input autoFocus defaultValue={preset.name}
+                                    onBlur={(e) => renameUserPreset(preset.id, e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') renameUserPreset(preset.id, e.currentTarget.value); if (e.key === 'Escape') setEditingPresetId(null); }}
+                                    className="flex-1 min-w-0 bg-neutral-900 text-neutral-200 rounded px-1 focus:outline-none" />
+                            ) : (
+                                <button onClick={() => selectUserPreset(preset)} className="flex-1 min-w-0 text-left truncate">{preset.name}</button>
+                            )}
+                            <button onClick={() => moveUserPreset(idx, -1)} disabled={idx === 0} className="opacity-60 hover:opacity-100 disabled:opacity-20"><ArrowUp size={10} /></button>
+                            <button onClick={() => moveUserPreset(idx, 1)} disabled={idx === userPresets.length - 1} className="opacity-60 hover:opacity-100 disabled:opacity-20"><ArrowDown size={10} /></button>
+                            <button onClick={() => setEditingPresetId(preset.id)} className="opacity-60 hover:opacity-100"><Pencil size={10} /></button>
+                            <button onClick={() => deleteUserPreset(preset.id)} className="opacity-60 hover:opacity-100 hover:text-red-500"><Trash2 size={10} /></button>
+                        </div>
+                    ))}
+                    <div className="flex gap-2">
+                        <input type="text" value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder={t('preset_name')}
+                            onKeyDown={(e) => { if (e.key === 'Enter') saveUserPreset(); }}
+                            className="flex-1 min-w-0 bg-neutral-900 border border-neutral-800 rounded py-1.5 px-3 text-xs text-neutral-300 placeholder-neutral-600 focus:outline-none focus:border-neutral-600" />
+                        <button onClick={saveUserPreset}
+                            className="flex items-center gap-1 px-3 text-[10px] font-bold rounded border border-neutral-700 text-neutral-300 hover:border-neutral-500">
+                            <Save size={12} /> {t('save_preset')}
+                        </button>
+                    </div>
+                </div>
+
+                {/* Style Editor */}
+                <div className="mt-4 border border-neutral-800 rounded-lg overflow-hidden bg-neutral-900/20">
+                    <button onClick={() => setStyleExpanded(!styleExpanded)}
+                        className="w-full flex items-center justify-between p-3 bg-neutral-900/50 hover:bg-neutral-900 transition-colors">
+                         <div className="flex items-center gap-2">
+                            <Palette size={14} className="text-neutral-500" />
+                            <span className="text-[10px] font-bold text-neutral-400 uppercase tracking-widest">{t('style')}</span>
+                         </div>
+                         {styleExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                    </button>
+                    {styleExpanded && (
+                        <div className="p-3 space-y-3 border-t border-neutral-800">
+                            <div className="grid grid-cols-2 gap-2">
+                                <label className="flex items-center justify-between gap-2 text-[10px] text-neutral-500">
+                                    {t('background')}
+                                    <input type="color" value={style.bg} onChange={(e) => updateSettings('style', { bg: e.target.value })} className="w-8 h-5 bg-transparent border-0 cursor-pointer" />
+                                </label>
+                                <label className="flex items-center justify-between gap-2 text-[10px] text-neutral-500">
+                                    {t('text_color')}
+                                    <input type="color" value={style.text} onChange={(e) => updateSettings('style', { text: e.target.value })} className="w-8 h-5 bg-transparent border-0 cursor-pointer" />
+                                </label>
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('border_fill')}</label>
+                                <div className="grid grid-cols-5 gap-1">
+                                    {(['solid', 'ambient', 'dominant', 'gradient', 'paper'] as BackgroundMode[]).map(mode => (
+                                        <button key={mode} onClick={() => updateSettings('background', { mode })}
+                                            className={`text-[9px] py-1.5 rounded border transition-colors
+                                                ${background.mode === mode ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {t(`fill_${mode}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                {background.mode === 'ambient' && (
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('radius')}</span><span>{background.blur}%</span></div>
+                                            <input type="range" min="1" max="10" step="0.5" value={background.blur} onChange={(e) => updateSettings('background', { blur: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                        </div>
+                                        <div>
+                                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('dim')}</span><span>{Math.round(background.dim*100)}%</span></div>
+                                            <input type="range" min="0" max="0.8" step="0.05" value={background.dim} onChange={(e) => updateSettings('background', { dim: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                        </div>
+                                    </div>
+                                )}
+                                {background.mode === 'gradient' && (
+                                    <div className="flex items-center gap-3">
+                                        <input type="color" value={background.gradientFrom} onChange={(e) => updateSettings('background', { gradientFrom: e.target.value })} className="w-8 h-5 bg-transparent border-0 cursor-pointer" />
+                                        <input type="color" value={background.gradientTo} onChange={(e) => updateSettings('background', { gradientTo: e.target.value })} className="w-8 h-5 bg-transparent border-0 cursor-pointer" />
+                                        <div className="flex-1">
+                                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('angle')}</span><span>{background.gradientAngle}°</span></div>
+                                            <input type="range" min="0" max="360" step="5" value={background.gradientAngle} onChange={(e) => updateSettings('background', { gradientAngle: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                        </div>
+                                    </div>
+                                )}
+                                {background.mode === 'paper' && (
+                                    <div className="flex items-center gap-3">
+                                        {(['paper', 'canvas'] as PaperTexture[]).map(texture => (
+                                            <button key={texture} onClick={() => updateSettings('background', { texture })}
+                                                className={`text-[10px] px-2 py-1 rounded border transition-colors
+                                                    ${background.texture === texture ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                                {t(`texture_${texture}`)}
+                                            </button>
+                                        ))}
+                                        <div className="flex-1">
+                                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('intensity')}</span><span>{Math.round(background.textureStrength*100)}%</span></div>
+                                            <input type="range" min="0" max="1" step="0.05" value={background.textureStrength} onChange={(e) => updateSettings('background', { textureStrength: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                        </div>
+                                    </div>
+                                )}
+                                {(background.mode === 'ambient' || background.mode === 'dominant' || background.mode === 'gradient') && (
+                                    <button onClick={() => updateSettings('background', { autoText: !background.autoText })}
+                                        className={`w-full text-[10px] py-1.5 rounded border transition-colors
+                                            ${background.autoText ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                        {t('auto_text')}
+                                    </button>
+                                )}
+                            </div>
+                            <div className="space-y-1">
+                                <label className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('layout')}</label>
+                                <div className="grid grid-cols-4 gap-1">
+                                    {(['gallery', 'polaroid', 'negative', 'cinema'] as LayoutStyle[]).map(l => (
+                                        <button key={l} onClick={() => updateSettings('style', { layout: l })}
+                                            className={`text-[10px] py-1.5 rounded border transition-colors
+                                                ${style.layout === l ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {t(`layout_${l}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            {style.layout === 'negative' && (
+                                <div className="space-y-3 p-2 rounded border border-neutral-800/50">
+                                    <div className="space-y-1">
+                                        <label className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('film_stock')}</label>
+                                        <input type="text" list="film-stocks" value={film.stock} onChange={(e) => updateFilm({ stock: e.target.value })}
+                                            className="w-full bg-neutral-900 border border-neutral-800 rounded py-1.5 px-3 text-xs text-neutral-300 font-mono focus:outline-none focus:border-neutral-600" />
+                                        <datalist id="film-stocks">
+                                            {FILM_STOCKS.map(stock => <option key={stock} value={stock} />)}
+                                        </datalist>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <label className="flex items-center justify-between gap-2 text-[10px] text-neutral-500">
+                                            {t('film_frame')}
+                                            <input type="number" min="0" max="99" value={film.frame} onChange={(e) => updateFilm({ frame: Math.max(0, Math.round(Number(e.target.value))) })}
+                                                className="w-14 bg-neutral-900 border border-neutral-800 rounded py-1 px-2 text-xs text-neutral-300 font-mono focus:outline-none" />
+                                        </label>
+                                        <div>
+                                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('film_pitch')}</span><span>{film.pitch.toFixed(2)}mm</span></div>
+                                            <input type="range" min="4.5" max="5" step="0.01" value={film.pitch} onChange={(e) => updateFilm({ pitch: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <button onClick={() => updateFilm({ edgePrint: !film.edgePrint })}
+                                            className={`text-[10px] py-1.5 rounded border transition-colors
+                                                ${film.edgePrint ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {t('film_edge_print')}
+                                        </button>
+                                        <button onClick={() => updateFilm({ dxCode: !film.dxCode })} disabled={!film.edgePrint}
+                                            className={`text-[10px] py-1.5 rounded border transition-colors disabled:opacity-30
+                                                ${film.dxCode ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {t('film_dx_code')}
+                                        </button>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-[10px] text-neutral-500">{t('film_rebate')}</span>
+                                        <div className="flex gap-1 items-center">
+                                            {(['style', 'orange', 'custom'] as RebateTint[]).map(tint => (
+                                                <button key={tint} onClick={() => updateFilm({ rebate: tint })}
+                                                    className={`text-[10px] px-2 py-1 rounded border transition-colors
+                                                        ${film.rebate === tint ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                                    {t(`rebate_${tint}`)}
+                                                </button>
+                                            ))}
+                                            {film.rebate === 'custom' && (
+                                                <input type="color" value={film.rebateColor} onChange={(e) => updateFilm({ rebateColor: e.target.value })} className="w-8 h-5 bg-transparent border-0 cursor-pointer" />
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                            {([['titleFont', 'title_font'], ['bodyFont', 'body_font'], ['scriptFont', 'script_font']] as const).map(([field, label]) => (
+                                <div key={field} className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] text-neutral-500">{t(label)}</span>
+                                    <select value={style[field]} onChange={(e) => updateSettings('style', { [field]: e.target.value })}
+                                        className="w-1/2 bg-neutral-900 border border-neutral-800 rounded py-1 px-2 text-xs text-neutral-300 focus:outline-none"
+                                        style={{ fontFamily: style[field] }}>
+                                        {(FONT_CHOICES.includes(style[field]) ? FONT_CHOICES : [style[field], ...FONT_CHOICES]).map(f => (
+                                            <option key={f} value={f} style={{ fontFamily: f }}>{f.split(',')[0]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
             </section>
 
-            {/* 3. Geometry */}
+            {/* 3. Crop */}
+            {currentImage && (
+            <section className="border border-neutral-800 rounded-lg overflow-hidden bg-neutral-900/20">
+                <button onClick={() => setCropExpanded(!cropExpanded)}
+                    className="w-full flex items-center justify-between p-3 bg-neutral-900/50 hover:bg-neutral-900 transition-colors">
+                     <div className="flex items-center gap-2">
+                        <Crop size={14} className="text-neutral-500" />
+                        <span className="text-[10px] font-bold text-neutral-400 uppercase tracking-widest">{t('crop')}</span>
+                        {currentImage.crop && <span className="text-[9px] text-neutral-600">{getPhotoSize(currentImage).width} × {getPhotoSize(currentImage).height}</span>}
+                     </div>
+                     {cropExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                </button>
+                {cropExpanded && (
+                    <div className="p-3 space-y-3 border-t border-neutral-800">
+                        <div className="grid grid-cols-6 gap-1">
+                            {(Object.keys(CROP_ASPECTS) as CropAspect[]).map(aspect => (
+                                <button key={aspect} onClick={() => updateCrop({ aspect })}
+                                    className={`text-[9px] py-1.5 rounded border transition-colors
+                                        ${crop.aspect === aspect ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {aspect === 'original' ? t('crop_original') : aspect}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <div className="flex gap-1">
+                                <button onClick={() => updateCrop({ turns: (crop.turns + 3) % 4 })} title={t('rotate_left')}
+                                    className="p-1.5 rounded border text-neutral-400 border-neutral-700 hover:border-neutral-500 transition-colors"><RotateCcw size={12} /></button>
+                                <button onClick={() => updateCrop({ turns: (crop.turns + 1) % 4 })} title={t('rotate_right')}
+                                    className="p-1.5 rounded border text-neutral-400 border-neutral-700 hover:border-neutral-500 transition-colors"><RotateCw size={12} /></button>
+                                <button onClick={() => updateCrop({ flipH: !crop.flipH })} title={t('flip_horizontal')}
+                                    className={`p-1.5 rounded border transition-colors ${crop.flipH ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}><FlipHorizontal2 size={12} /></button>
+                                <button onClick={() => updateCrop({ flipV: !crop.flipV })} title={t('flip_vertical')}
+                                    className={`p-1.5 rounded border transition-colors ${crop.flipV ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}><FlipVertical2 size={12} /></button>
+                            </div>
+                            <div className="flex gap-1">
+                                <button onClick={() => updateCrop({ swap: !crop.swap })}
+                                    className={`text-[10px] px-2 py-1 rounded border transition-colors
+                                        ${crop.swap ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {t('crop_swap')}
+                                </button>
+                                <button onClick={resetCrop} disabled={!currentImage.crop}
+                                    className="text-[10px] px-2 py-1 rounded border text-neutral-400 border-neutral-700 hover:border-neutral-500 disabled:opacity-30 transition-colors">
+                                    {t('crop_reset')}
+                                </button>
+                            </div>
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('straighten')}</span><span>{crop.angle.toFixed(1)}°</span></div>
+                            <input type="range" min="-45" max="45" step="0.1" value={crop.angle} onChange={(e) => updateCrop({ angle: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                        </div>
+                        <div className="grid grid-cols-3 gap-3">
+                            <div>
+                                <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('crop_zoom')}</span><span>{crop.zoom.toFixed(2)}×</span></div>
+                                <input type="range" min="1" max="4" step="0.05" value={crop.zoom} onChange={(e) => updateCrop({ zoom: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                            </div>
+                            {([['crop_pan_x', 'panX'], ['crop_pan_y', 'panY']] as const).map(([label, field]) => (
+                                <div key={field}>
+                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t(label)}</span><span>{Math.round(crop[field]*100)}</span></div>
+                                    <input type="range" min="-1" max="1" step="0.02" value={crop[field]} onChange={(e) => updateCrop({ [field]: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </section>
+            )}
+
+            {/* 4. Geometry */}
             <section className="border border-neutral-800 rounded-lg overflow-hidden bg-neutral-900/20">
                 <div className="flex items-center justify-between p-3 bg-neutral-900/50">
                      <div className="flex items-center gap-2">
@@ -772,50 +1958,158 @@ export default function App() {
                      </div>
                      <div className="flex gap-1 bg-neutral-800 rounded p-0.5">
                         <button 
-                            onClick={() => setBorderMode('simple')}
-                            className={`p-1 rounded ${borderMode === 'simple' ? 'bg-neutral-600 text-white' : 'text-neutral-500 hover:text-neutral-300'}`}
+                            onClick={() => updateSettings('border', { mode: 'simple' })}
+                            className={`p-1 rounded ${border.mode === 'simple' ? 'bg-neutral-600 text-white' : 'text-neutral-500 hover:text-neutral-300'}`}
                         >
                             <Lock size={12} />
                         </button>
                         <button 
-                            onClick={() => setBorderMode('advanced')}
-                            className={`p-1 rounded ${borderMode === 'advanced' ? 'bg-neutral-600 text-white' : 'text-neutral-500 hover:text-neutral-300'}`}
+                            onClick={() => updateSettings('border', { mode: 'advanced' })}
+                            className={`p-1 rounded ${border.mode === 'advanced' ? 'bg-neutral-600 text-white' : 'text-neutral-500 hover:text-neutral-300'}`}
                         >
                             <Unlock size={12} />
                         </button>
+                        <button 
+                            onClick={() => updateSettings('border', { mode: 'target' })}
+                            className={`p-1 rounded ${border.mode === 'target' ? 'bg-neutral-600 text-white' : 'text-neutral-500 hover:text-neutral-300'}`}
+                        >
+                            <Ratio size={12} />
+                        </button>
                      </div>
                 </div>
                 
                 <div className="p-3 border-t border-neutral-800">
-                    {borderMode === 'simple' ? (
+                    {border.mode === 'simple' ? (
                         <div className="space-y-2">
                              <div className="flex justify-between text-[10px] text-neutral-400">
                                 <span>{t('simple_scale')}</span>
-                                <span>{scale}%</span>
+                                <span>{border.scale}%</span>
                              </div>
-                             <input type="range" min="0" max="30" step="0.5" value={scale} onChange={(e) => setScale(Number(e.target.value))} 
+                             <input type="range" min="0" max="30" step="0.5" value={border.scale} onChange={(e) => updateSettings('border', { scale: Number(e.target.value) })} 
                                     className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
                         </div>
+                    ) : border.mode === 'target' ? (
+                        <div className="space-y-3 animate-in fade-in slide-in-from-top-1">
+                            <label className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('target_canvas')}</label>
+                            <div className="grid grid-cols-4 gap-1">
+                                {TARGET_PRESETS.map(p => {
+                                    const active = border.target.width === p.width && border.target.height === p.height && border.target.unit === p.unit;
+                                    return (
+                                        <button key={p.label} onClick={() => updateTarget({ width: p.width, height: p.height, unit: p.unit })}
+                                            className={`text-[10px] py-1.5 rounded border transition-colors
+                                                ${active ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {p.label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            <div className="flex gap-2 items-center">
+                                <input type="number" min="0.1" step="0.1" value={border.target.width} onChange={(e) => updateTarget({ width: Number(e.target.value) })}
+                                    className="w-1/4 bg-neutral-900 border border-neutral-800 rounded py-1 px-2 text-xs text-neutral-300 focus:outline-none focus:border-neutral-600" />
+                                <span className="text-[10px] text-neutral-600">×</span>
+                                <input type="number" min="0.1" step="0.1" value={border.target.height} onChange={(e) => updateTarget({ height: Number(e.target.value) })}
+                                    className="w-1/4 bg-neutral-900 border border-neutral-800 rounded py-1 px-2 text-xs text-neutral-300 focus:outline-none focus:border-neutral-600" />
+                                <select value={border.target.unit} onChange={(e) => updateTarget({ unit: e.target.value as TargetUnit })}
+                                    className="flex-1 bg-neutral-900 border border-neutral-800 rounded py-1 px-2 text-xs text-neutral-300 focus:outline-none">
+                                    <option value="ratio">{t('unit_ratio')}</option>
+                                    <option value="in">in</option>
+                                    <option value="mm">mm</option>
+                                </select>
+                            </div>
+                            {border.target.unit !== 'ratio' && (
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] text-neutral-500">{t('dpi')}</span>
+                                    <input type="number" min="72" max="1200" step="1" value={border.target.dpi} onChange={(e) => updateTarget({ dpi: Number(e.target.value) })}
+                                        className="w-20 bg-neutral-900 border border-neutral-800 rounded py-1 px-2 text-xs text-neutral-300 focus:outline-none focus:border-neutral-600" />
+                                    {currentImage && (() => {
+                                        const size = getTargetPixelSize(getPhotoSize(currentImage).width, getPhotoSize(currentImage).height, border.target);
+                                        return size && <span className="text-[10px] font-mono text-neutral-500">{size.width} × {size.height}px</span>;
+                                    })()}
+                                </div>
+                            )}
+                            <div className="space-y-1">
+                                <div className="flex justify-between text-[10px] text-neutral-400">
+                                    <span>{t('min_border')}</span>
+                                    <span>{border.target.minBorder}%</span>
+                                </div>
+                                <input type="range" min="0" max="30" step="0.5" value={border.target.minBorder} onChange={(e) => updateTarget({ minBorder: Number(e.target.value) })}
+                                    className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                            </div>
+                            <button onClick={() => updateTarget({ matchOrientation: !border.target.matchOrientation })}
+                                className={`w-full text-[10px] py-1.5 rounded border transition-colors
+                                    ${border.target.matchOrientation ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                {t('match_orientation')}
+                            </button>
+                        </div>
                     ) : (
                         <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-1">
                             {(['top', 'bottom', 'left', 'right'] as Array<keyof Margins>).map(side => (
                                 <div key={side} className="space-y-1">
                                     <div className="flex justify-between text-[10px] text-neutral-400 capitalize">
                                         <span>{t(side)}</span>
-                                        <span>{margins[side]}%</span>
+                                        <span>{border.margins[side]}%</span>
                                     </div>
                                     <input type="range" min="0" max="30" step="0.5" 
-                                           value={margins[side]} 
-                                           onChange={(e) => setMargins({...margins, [side]: Number(e.target.value)})} 
+                                           value={border.margins[side]} 
+                                           onChange={(e) => updateSettings('border', { margins: {...border.margins, [side]: Number(e.target.value)} })} 
                                            className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
                                 </div>
                             ))}
                         </div>
                     )}
+                    <div className="space-y-3 mt-4 pt-3 border-t border-neutral-800/50">
+                        <div className="grid grid-cols-2 gap-3">
+                            {([['photo_radius', 'photoRadius'], ['canvas_radius', 'canvasRadius']] as const).map(([label, field]) => (
+                                <div key={field}>
+                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t(label)}</span><span>{border[field]}%</span></div>
+                                    <input type="range" min="0" max="25" step="0.5" value={border[field]} onChange={(e) => updateSettings('border', { [field]: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                </div>
+                            ))}
+                        </div>
+                        {border.canvasRadius > 0 && <p className="text-[9px] text-neutral-600">{t('rounded_png')}</p>}
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('mat')}</span>
+                            <div className="flex gap-1 items-center">
+                                {border.mat.enabled && (
+                                    <input type="color" value={border.mat.color} onChange={(e) => updateMat({ color: e.target.value })} className="w-8 h-5 bg-transparent border-0 cursor-pointer" />
+                                )}
+                                <button onClick={() => updateMat({ enabled: !border.mat.enabled })}
+                                    className={`text-[10px] px-2 py-1 rounded border transition-colors
+                                        ${border.mat.enabled ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {border.mat.enabled ? t('on') : t('off')}
+                                </button>
+                            </div>
+                        </div>
+                        {border.mat.enabled && (
+                            <div className="grid grid-cols-2 gap-3 items-end">
+                                <div>
+                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('mat_width')}</span><span>{border.mat.width}%</span></div>
+                                    <input type="range" min="0.5" max="20" step="0.5" value={border.mat.width} onChange={(e) => updateMat({ width: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                </div>
+                                <button onClick={() => updateMat({ bevel: !border.mat.bevel })}
+                                    className={`text-[10px] py-1.5 rounded border transition-colors
+                                        ${border.mat.bevel ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {t('mat_bevel')}
+                                </button>
+                            </div>
+                        )}
+                        <div className="grid grid-cols-2 gap-3 items-end">
+                            <div>
+                                <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('keyline')}</span><span>{border.mat.keyline > 0 ? `${border.mat.keyline}‰` : t('off')}</span></div>
+                                <input type="range" min="0" max="5" step="0.25" value={border.mat.keyline} onChange={(e) => updateMat({ keyline: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                            </div>
+                            {border.mat.keyline > 0 && (
+                                <label className="flex items-center justify-between gap-2 text-[10px] text-neutral-500">
+                                    {t('keyline_color')}
+                                    <input type="color" value={border.mat.keylineColor} onChange={(e) => updateMat({ keylineColor: e.target.value })} className="w-8 h-5 bg-transparent border-0 cursor-pointer" />
+                                </label>
+                            )}
+                        </div>
+                    </div>
                 </div>
             </section>
 
-            {/* 4. Optics */}
+            {/* 5. Optics */}
             <section className="border border-neutral-800 rounded-lg overflow-hidden bg-neutral-900/20">
                 <button onClick={() => setOpticsExpanded(!opticsExpanded)}
                     className="w-full flex items-center justify-between p-3 bg-neutral-900/50 hover:bg-neutral-900 transition-colors">
@@ -829,12 +2123,82 @@ export default function App() {
                 {opticsExpanded && (
                     <div className="p-3 space-y-4 border-t border-neutral-800">
                         <div className="space-y-2">
+                            <label className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('lens')}</label>
+                            <div className="grid grid-cols-2 gap-3">
+                                {([
+                                    ['vignette', 'amount', -1, 1, 0.05],
+                                    ['vignette_midpoint', 'midpoint', 0, 1, 0.05],
+                                    ['vignette_roundness', 'roundness', -1, 1, 0.05],
+                                    ['vignette_feather', 'feather', 0, 1, 0.05],
+                                ] as const).map(([label, field, min, max, step]) => (
+                                    <div key={field} className={field !== 'amount' && optics.lens.vignette.amount === 0 ? 'opacity-40' : ''}>
+                                        <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t(label)}</span><span>{Math.round(optics.lens.vignette[field]*100)}</span></div>
+                                        <input type="range" min={min} max={max} step={step} value={optics.lens.vignette[field]} onChange={(e) => updateLens({ vignette: { ...optics.lens.vignette, [field]: Number(e.target.value) } })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                    </div>
+                                ))}
+                                <div>
+                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('aberration')}</span><span>{Math.round(optics.lens.aberration*100)}</span></div>
+                                    <input type="range" min="0" max="1" step="0.05" value={optics.lens.aberration} onChange={(e) => updateLens({ aberration: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                </div>
+                                <div>
+                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1">
+                                        <span>{t('distortion')}</span>
+                                        <span>{optics.lens.distortion === 0 ? '0' : `${t(optics.lens.distortion > 0 ? 'barrel' : 'pincushion')} ${Math.round(Math.abs(optics.lens.distortion)*100)}`}</span>
+                                    </div>
+                                    <input type="range" min="-1" max="1" step="0.05" value={optics.lens.distortion} onChange={(e) => updateLens({ distortion: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2 pt-2 border-t border-neutral-800/50">
+                            <label className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('film_look')}</label>
+                            <select value={optics.lut.id} onChange={(e) => updateLut({ id: e.target.value })}
+                                className="w-full bg-neutral-900 border border-neutral-800 rounded py-1.5 px-2 text-xs text-neutral-300 focus:outline-none">
+                                <option value="">{t('lut_none')}</option>
+                                <optgroup label={t('lut_builtin')}>
+                                    {BUILTIN_LUTS.map(lut => <option key={lut.id} value={lut.id}>{lut.name}</option>)}
+                                </optgroup>
+                                {userLuts.length > 0 && (
+                                    <optgroup label={t('lut_uploaded')}>
+                                        {userLuts.map(lut => <option key={lut.id} value={lut.id}>{lut.name} ({lut.size}³)</option>)}
+                                    </optgroup>
+                                )}
+                            </select>
+                            <div className="flex items-center justify-between gap-2">
+                                <label className="flex items-center gap-1 text-[10px] text-neutral-400 hover:text-white cursor-pointer">
+                                    <FileUp size={12} /> {t('lut_upload')}
+                                    <input type="file" accept=".cube" onChange={uploadLut} className="hidden" />
+                                </label>
+                                {userLuts.some(lut => lut.id === optics.lut.id) && (
+                                    <button onClick={() => removeLut(optics.lut.id)} className="text-[10px] text-neutral-500 hover:text-red-500">{t('lut_remove')}</button>
+                                )}
+                            </div>
+                            {optics.lut.id && (
+                                <div className="grid grid-cols-2 gap-3 items-end">
+                                    <div>
+                                        <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('intensity')}</span><span>{Math.round(optics.lut.intensity*100)}%</span></div>
+                                        <input type="range" min="0" max="1" step="0.05" value={optics.lut.intensity} onChange={(e) => updateLut({ intensity: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                    </div>
+                                    <div className="flex gap-1 justify-end">
+                                        {(['trilinear', 'tetrahedral'] as LutInterpolation[]).map(mode => (
+                                            <button key={mode} onClick={() => updateLut({ interpolation: mode })}
+                                                className={`text-[9px] px-2 py-1 rounded border transition-colors
+                                                    ${optics.lut.interpolation === mode ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                                {t(`lut_${mode}`)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="space-y-2 pt-2 border-t border-neutral-800/50">
                             <label className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('diffusion')}</label>
                             <div className="grid grid-cols-2 gap-2">
                                 {FILTERS.map(f => (
-                                    <button key={f.id} onClick={() => setFilterType(f.id)}
+                                    <button key={f.id} onClick={() => updateSettings('optics', { filter: { ...optics.filter, type: f.id, ...(GLOW_FILTERS.includes(f.id) && { tint: GLOW_TINTS[f.id] }) } })}
                                         className={`text-[10px] py-1.5 rounded border transition-colors
-                                            ${filterType === f.id ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}
+                                            ${optics.filter.type === f.id ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}
                                     >
                                         {t(f.nameKey)}
                                     </button>
@@ -842,67 +2206,627 @@ export default function App() {
                             </div>
                         </div>
                         
-                        {filterType !== 'none' && (
+                        {optics.filter.type !== 'none' && (
                             <div className="space-y-3 pt-2 border-t border-neutral-800/50">
                                 <div>
-                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('intensity')}</span><span>{Math.round(filterStrength*100)}%</span></div>
-                                    <input type="range" min="0" max="1" step="0.05" value={filterStrength} onChange={(e) => setFilterStrength(Number(e.target.value))} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('intensity')}</span><span>{Math.round(optics.filter.strength*100)}%</span></div>
+                                    <input type="range" min="0" max="1" step="0.05" value={optics.filter.strength} onChange={(e) => updateSettings('optics', { filter: { ...optics.filter, strength: Number(e.target.value) } })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
                                 </div>
                                 <div>
-                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('radius')}</span><span>{filterRadius}px</span></div>
-                                    <input type="range" min="0" max="100" step="1" value={filterRadius} onChange={(e) => setFilterRadius(Number(e.target.value))} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                    <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('radius')}</span><span>{optics.filter.radius}px</span></div>
+                                    <input type="range" min="0" max="100" step="1" value={optics.filter.radius} onChange={(e) => updateSettings('optics', { filter: { ...optics.filter, radius: Number(e.target.value) } })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
                                 </div>
+                                {GLOW_FILTERS.includes(optics.filter.type) && (
+                                    <div className="grid grid-cols-2 gap-3 items-end">
+                                        <div>
+                                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('threshold')}</span><span>{Math.round(optics.filter.threshold*100)}%</span></div>
+                                            <input type="range" min="0.3" max="0.98" step="0.01" value={optics.filter.threshold} onChange={(e) => updateSettings('optics', { filter: { ...optics.filter, threshold: Number(e.target.value) } })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                        </div>
+                                        <label className="flex items-center justify-between gap-2 text-[10px] text-neutral-500">
+                                            {t('tint')}
+                                            <input type="color" value={optics.filter.tint} onChange={(e) => updateSettings('optics', { filter: { ...optics.filter, tint: e.target.value } })} className="w-8 h-5 bg-transparent border-0 cursor-pointer" />
+                                        </label>
+                                    </div>
+                                )}
                             </div>
                         )}
                         
                         <div className="grid grid-cols-3 gap-2 pt-2">
-                            <Toggle label={t('toggle_leak')} active={leakEnabled} onClick={() => setLeakEnabled(!leakEnabled)} icon={Sun} />
-                            <Toggle label={t('toggle_shadow')} active={shadowEnabled} onClick={() => setShadowEnabled(!shadowEnabled)} icon={Layers} />
-                            <Toggle label={t('toggle_grain')} active={textureEnabled} onClick={() => setTextureEnabled(!textureEnabled)} icon={ImageIcon} />
+                            <Toggle label={t('toggle_leak')} active={optics.leak} onClick={() => updateSettings('optics', { leak: !optics.leak })} icon={Sun} />
+                            <Toggle label={t('toggle_shadow')} active={optics.shadow} onClick={() => updateSettings('optics', { shadow: !optics.shadow })} icon={Layers} />
+                            <Toggle label={t('toggle_grain')} active={optics.texture} onClick={() => updateSettings('optics', { texture: !optics.texture })} icon={ImageIcon} />
                         </div>
+
+                        {optics.texture && (
+                            <div className="grid grid-cols-2 gap-3 pt-2 border-t border-neutral-800/50">
+                                {([
+                                    ['grain_size', 'size', 0.5, 3, 0.1],
+                                    ['grain_amount', 'amount', 0, 1, 0.05],
+                                    ['grain_roughness', 'roughness', 0, 1, 0.05],
+                                    ['grain_chroma', 'chroma', 0, 1, 0.05],
+                                ] as const).map(([label, field, min, max, step]) => (
+                                    <div key={field}>
+                                        <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t(label)}</span><span>{field === 'size' ? optics.grain.size.toFixed(1) : `${Math.round(optics.grain[field]*100)}%`}</span></div>
+                                        <input type="range" min={min} max={max} step={step} value={optics.grain[field]} onChange={(e) => updateSettings('optics', { grain: { ...optics.grain, [field]: Number(e.target.value) } })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {optics.leak && (
+                            <div className="space-y-3 pt-2 border-t border-neutral-800/50">
+                                <div className="grid grid-cols-5 gap-1">
+                                    {LEAK_STYLES.map(leakStyle => (
+                                        <button key={leakStyle} onClick={() => updateLightLeak({ style: leakStyle, color: LEAK_COLORS[leakStyle] })}
+                                            className={`text-[9px] py-1.5 rounded border transition-colors
+                                                ${lightLeak.style === leakStyle ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {t(`leak_${leakStyle}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <label className="flex items-center justify-between gap-2 text-[10px] text-neutral-500">
+                                        {lightLeak.style === 'prism' ? t('leak_hue') : t('leak_color')}
+                                        <input type="color" value={lightLeak.color} onChange={(e) => updateLightLeak({ color: e.target.value })} className="w-8 h-5 bg-transparent border-0 cursor-pointer" />
+                                    </label>
+                                    <div>
+                                        <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('intensity')}</span><span>{Math.round(lightLeak.intensity*100)}%</span></div>
+                                        <input type="range" min="0" max="1" step="0.05" value={lightLeak.intensity} onChange={(e) => updateLightLeak({ intensity: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                    </div>
+                                </div>
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] text-neutral-500">{t('leak_randomize')}</span>
+                                    <div className="flex gap-1">
+                                        {lightLeak.randomize && (
+                                            <button onClick={() => updateLightLeak({ variant: lightLeak.variant + 1 })} title={t('leak_reshuffle')}
+                                                className="text-[10px] px-2 py-1 rounded border text-neutral-400 border-neutral-700 hover:border-neutral-500 transition-colors">
+                                                <Dices size={12} />
+                                            </button>
+                                        )}
+                                        <button onClick={() => updateLightLeak({ randomize: !lightLeak.randomize })}
+                                            className={`text-[10px] px-2 py-1 rounded border transition-colors
+                                                ${lightLeak.randomize ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            <Shuffle size={12} />
+                                        </button>
+                                    </div>
+                                </div>
+                                {!lightLeak.randomize && (
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('leak_position')}</span><span>{Math.round(lightLeak.position*100)}%</span></div>
+                                            <input type="range" min="0" max="1" step="0.01" value={lightLeak.position} onChange={(e) => updateLightLeak({ position: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                        </div>
+                                        <div>
+                                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('leak_angle')}</span><span>{lightLeak.angle}°</span></div>
+                                            <input type="range" min="-90" max="90" step="1" value={lightLeak.angle} onChange={(e) => updateLightLeak({ angle: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
                     </div>
                 )}
             </section>
 
-            {/* 5. Imprint */}
+            {/* 6. Imprint */}
             <section>
                 <h2 className="text-[10px] font-bold text-neutral-600 uppercase tracking-widest mb-3 flex items-center gap-2">
                     <Clock size={12} /> {t('markings')}
                 </h2>
                 <div className="grid grid-cols-3 gap-2">
-                    <Toggle label={t('toggle_quartz')} active={quartzEnabled} onClick={() => setQuartzEnabled(!quartzEnabled)} icon={Clock} />
-                    <Toggle label={t('toggle_sign')} active={signatureEnabled} onClick={() => setSignatureEnabled(!signatureEnabled)} icon={PenTool} />
-                    <Toggle label={t('toggle_palette')} active={paletteEnabled} onClick={() => setPaletteEnabled(!paletteEnabled)} icon={Settings2} />
+                    <Toggle label={t('toggle_quartz')} active={markings.quartz} onClick={() => updateSettings('markings', { quartz: !markings.quartz })} icon={Clock} />
+                    <Toggle label={t('toggle_sign')} active={markings.signature} onClick={() => updateSettings('markings', { signature: !markings.signature })} icon={PenTool} />
+                    <Toggle label={t('toggle_palette')} active={markings.palette} onClick={() => updateSettings('markings', { palette: !markings.palette })} icon={Settings2} />
                 </div>
+                {markings.palette && (
+                    <div className="mt-3 p-3 space-y-3 rounded-lg border border-neutral-800 bg-neutral-900/20">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('palette_count')}</span><span>{palette.count}</span></div>
+                                <input type="range" min={PALETTE_MIN} max={PALETTE_MAX} step="1" value={palette.count} onChange={(e) => updateSettings('palette', { count: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                            </div>
+                            <div>
+                                <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('size')}</span><span>{palette.size.toFixed(1)}</span></div>
+                                <input type="range" min="0.5" max="2.5" step="0.1" value={palette.size} onChange={(e) => updateSettings('palette', { size: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                            </div>
+                        </div>
+                        {([
+                            ['palette_sort', 'sort', [['dominance', 'sort_dominance'], ['hue', 'sort_hue']]],
+                            ['palette_labels', 'labels', [['none', 'labels_none'], ['hex', 'HEX'], ['rgb', 'RGB']]],
+                            ['swatch_shape', 'shape', [['circle', 'shape_circle'], ['square', 'shape_square'], ['rounded', 'shape_rounded']]],
+                        ] as const).map(([label, field, options]) => (
+                            <div key={field} className="flex items-center justify-between gap-2">
+                                <span className="text-[10px] text-neutral-500">{t(label)}</span>
+                                <div className="flex gap-1">
+                                    {options.map(([value, name]) => (
+                                        <button key={value} onClick={() => updateSettings('palette', { [field]: value } as Partial<PaletteSettings>)}
+                                            className={`text-[10px] px-2 py-1 rounded border transition-colors
+                                                ${palette[field] === value ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {name in TRANSLATIONS.en ? t(name as keyof typeof TRANSLATIONS.en) : name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {markings.quartz && (
+                    <div className="mt-3 p-3 space-y-3 rounded-lg border border-neutral-800 bg-neutral-900/20">
+                        <div className="grid grid-cols-2 gap-2">
+                            {(['segment', 'matrix'] as const).map(glyphs => (
+                                <button key={glyphs} onClick={() => updateQuartz({ glyphs })}
+                                    className={`text-[10px] py-1.5 rounded border transition-colors
+                                        ${quartz.glyphs === glyphs ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {t(`quartz_${glyphs}`)}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-[10px] text-neutral-500">{t('quartz_color')}</span>
+                            <div className="flex gap-1">
+                                {(Object.keys(QUARTZ_COLORS) as Array<keyof typeof QUARTZ_COLORS>).map(color => (
+                                    <button key={color} onClick={() => updateQuartz({ color })} title={t(`quartz_${color}`)}
+                                        className={`flex items-center gap-1 text-[10px] px-2 py-1 rounded border transition-colors
+                                            ${quartz.color === color ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: QUARTZ_COLORS[color].halo }} />
+                                        {t(`quartz_${color}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-4 gap-1">
+                            {QUARTZ_FORMATS.map(format => (
+                                <button key={format} onClick={() => updateQuartz({ format })}
+                                    className={`text-[9px] py-1 rounded border font-mono transition-colors
+                                        ${quartz.format === format ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {format === 'time' ? t('quartz_time') : format === 'mdy' ? "MM DD 'YY" : format === 'dmy' ? "DD MM 'YY" : "'YY MM DD"}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <div>
+                                <span className="block text-[10px] text-neutral-500 mb-1">{t('quartz_corner')}</span>
+                                <div className="grid grid-cols-2 gap-1 w-[36px]">
+                                    {(['top-left', 'top-right', 'bottom-left', 'bottom-right'] as QuartzCorner[]).map(corner => (
+                                        <button key={corner} onClick={() => updateQuartz({ corner })} title={corner}
+                                            className={`h-4 rounded-sm border transition-colors
+                                                ${quartz.corner === corner ? 'bg-white border-white' : 'border-neutral-700 hover:border-neutral-500'}`} />
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <span className="block text-[10px] text-neutral-500 mb-1 text-right">{t('quartz_rotation')}</span>
+                                <div className="flex gap-1">
+                                    {[-90, 0, 90].map(rotation => (
+                                        <button key={rotation} onClick={() => updateQuartz({ rotation })}
+                                            className={`text-[10px] px-2 py-1 rounded border transition-colors
+                                                ${quartz.rotation === rotation ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {rotation}°
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('quartz_size')}</span><span>{quartz.size.toFixed(1)}%</span></div>
+                            <input type="range" min="1" max="6" step="0.1" value={quartz.size} onChange={(e) => updateQuartz({ size: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-[10px] text-neutral-500">{t('quartz_auto')}</span>
+                            <button onClick={() => updateQuartz({ auto: !quartz.auto })}
+                                className={`text-[10px] px-3 py-1 rounded border transition-colors
+                                    ${quartz.auto ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                {quartz.auto ? t('on') : t('off')}
+                            </button>
+                        </div>
+                        {quartz.auto && (
+                            <div>
+                                <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('quartz_year_offset')}</span><span>{quartz.yearOffset > 0 ? `+${quartz.yearOffset}` : quartz.yearOffset}</span></div>
+                                <input type="range" min="-50" max="10" step="1" value={quartz.yearOffset} onChange={(e) => updateQuartz({ yearOffset: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                            </div>
+                        )}
+                        <p className="text-[9px] text-neutral-600">{quartz.auto ? t('quartz_auto_hint') : t('quartz_manual_hint')}</p>
+                    </div>
+                )}
             </section>
             
-            {/* 6. Data Input */}
+            {/* Captions */}
+            <section className="border border-neutral-800 rounded-lg overflow-hidden bg-neutral-900/20">
+                <button onClick={() => setCaptionsExpanded(!captionsExpanded)}
+                    className="w-full flex items-center justify-between p-3 bg-neutral-900/50 hover:bg-neutral-900 transition-colors">
+                     <div className="flex items-center gap-2">
+                        <Type size={14} className="text-neutral-500" />
+                        <span className="text-[10px] font-bold text-neutral-400 uppercase tracking-widest">{t('captions')}</span>
+                     </div>
+                     {captionsExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                </button>
+
+                {captionsExpanded && (
+                    <div className="p-3 space-y-3 border-t border-neutral-800">
+                        <p className="text-[9px] text-neutral-600 font-mono">{CAPTION_TOKENS.map(token => `{${token}}`).join(' ')}</p>
+                        {style.captions.map((line, idx) => (
+                            <div key={idx} className="space-y-2 p-2 rounded border border-neutral-800">
+                                <div className="flex gap-1 items-center">
+                                    <input type="text" value={line.template} onChange={(e) => updateCaption(idx, { template: e.target.value })} placeholder={t('caption_template')}
+                                        className="flex-1 min-w-0 bg-neutral-900 border border-neutral-800 rounded py-1 px-2 text-xs text-neutral-300 font-mono placeholder-neutral-600 focus:outline-none focus:border-neutral-600" />
+                                    <button onClick={() => moveCaption(idx, -1)} disabled={idx === 0} className="text-neutral-500 hover:text-white disabled:opacity-20"><ArrowUp size={10} /></button>
+                                    <button onClick={() => moveCaption(idx, 1)} disabled={idx === style.captions.length - 1} className="text-neutral-500 hover:text-white disabled:opacity-20"><ArrowDown size={10} /></button>
+                                    <button onClick={() => removeCaption(idx)} className="text-neutral-500 hover:text-red-500"><Trash2 size={10} /></button>
+                                </div>
+                                <div className="flex gap-1">
+                                    <select value={line.slot} onChange={(e) => updateCaption(idx, { slot: e.target.value as CaptionLine['slot'] })}
+                                        className="flex-1 min-w-0 bg-neutral-900 border border-neutral-800 rounded py-1 px-1 text-[10px] text-neutral-300 focus:outline-none">
+                                        {CAPTION_SLOTS.map(slot => <option key={slot} value={slot}>{t(`slot_${slot.replace('-', '_')}` as keyof typeof TRANSLATIONS.en)}</option>)}
+                                    </select>
+                                    <select value={line.font} onChange={(e) => updateCaption(idx, { font: e.target.value as CaptionFont })}
+                                        className="flex-1 min-w-0 bg-neutral-900 border border-neutral-800 rounded py-1 px-1 text-[10px] text-neutral-300 focus:outline-none">
+                                        {(['title', 'body', 'script'] as CaptionFont[]).map(font => <option key={font} value={font}>{t(`font_${font}`)}</option>)}
+                                    </select>
+                                    <select value={line.weight} onChange={(e) => updateCaption(idx, { weight: Number(e.target.value) })}
+                                        className="w-14 bg-neutral-900 border border-neutral-800 rounded py-1 px-1 text-[10px] text-neutral-300 focus:outline-none">
+                                        {CAPTION_WEIGHTS.map(w => <option key={w} value={w}>{w}</option>)}
+                                    </select>
+                                    <button onClick={() => updateCaption(idx, { italic: !line.italic })}
+                                        className={`px-1.5 rounded border transition-colors ${line.italic ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700'}`}><Italic size={10} /></button>
+                                    <button onClick={() => updateCaption(idx, { uppercase: !line.uppercase })}
+                                        className={`px-1.5 rounded border transition-colors ${line.uppercase ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700'}`}><CaseUpper size={10} /></button>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <div>
+                                        <div className="flex justify-between text-[9px] text-neutral-500 mb-1"><span>{t('size')}</span><span>{line.size.toFixed(1)}</span></div>
+                                        <input type="range" min="0.4" max="4" step="0.1" value={line.size} onChange={(e) => updateCaption(idx, { size: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                    </div>
+                                    <div>
+                                        <div className="flex justify-between text-[9px] text-neutral-500 mb-1"><span>{t('opacity')}</span><span>{Math.round(line.opacity*100)}%</span></div>
+                                        <input type="range" min="0.1" max="1" step="0.05" value={line.opacity} onChange={(e) => updateCaption(idx, { opacity: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                    </div>
+                                    <div>
+                                        <div className="flex justify-between text-[9px] text-neutral-500 mb-1"><span>{t('tracking')}</span><span>{line.tracking.toFixed(2)}</span></div>
+                                        <input type="range" min="0" max="0.5" step="0.01" value={line.tracking} onChange={(e) => updateCaption(idx, { tracking: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                        <div className="flex justify-between">
+                            <button onClick={addCaption} className="flex items-center gap-1 text-[10px] text-neutral-400 hover:text-white">
+                                <Plus size={10} /> {t('add_caption')}
+                            </button>
+                            <button onClick={() => setCaptions(() => LAYOUT_CAPTIONS[style.layout])} className="flex items-center gap-1 text-[10px] text-neutral-500 hover:text-white">
+                                <RotateCcw size={10} /> {t('reset_captions')}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </section>
+
+            {/* Logo */}
+            <section className="border border-neutral-800 rounded-lg overflow-hidden bg-neutral-900/20">
+                <button onClick={() => setLogoExpanded(!logoExpanded)}
+                    className="w-full flex items-center justify-between p-3 bg-neutral-900/50 hover:bg-neutral-900 transition-colors">
+                     <div className="flex items-center gap-2">
+                        <Award size={14} className="text-neutral-500" />
+                        <span className="text-[10px] font-bold text-neutral-400 uppercase tracking-widest">{t('logo')}</span>
+                     </div>
+                     {logoExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                </button>
+
+                {logoExpanded && (
+                    <div className="p-3 space-y-3 border-t border-neutral-800">
+                        <div className="grid grid-cols-2 gap-2">
+                            <button onClick={() => updateLogo({ enabled: !logo.enabled })}
+                                className={`text-[10px] py-1.5 rounded border transition-colors
+                                    ${logo.enabled ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                {t('logo_enabled')}
+                            </button>
+                            <button onClick={() => updateLogo({ monochrome: !logo.monochrome })}
+                                className={`text-[10px] py-1.5 rounded border transition-colors
+                                    ${logo.monochrome ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                {t('logo_monochrome')}
+                            </button>
+                        </div>
+                        <select value={logo.brand} onChange={(e) => updateLogo({ brand: e.target.value })}
+                            className="w-full bg-neutral-900 border border-neutral-800 rounded py-1.5 px-2 text-xs text-neutral-300 focus:outline-none">
+                            <option value="auto">{t('logo_auto')} ({detectedBrand ? BRAND_MARKS[detectedBrand].name : t('logo_none_detected')})</option>
+                            {Object.entries(BRAND_MARKS).map(([id, mark]) => <option key={id} value={id}>{mark.name}</option>)}
+                            <option value="custom" disabled={!customLogo}>{t('logo_custom')}</option>
+                        </select>
+                        <div className="flex items-center justify-between gap-2">
+                            <label className="flex items-center gap-1 text-[10px] text-neutral-400 hover:text-white cursor-pointer">
+                                <ImageUp size={12} /> {t('logo_upload')}
+                                <input type="file" accept="image/svg+xml,image/png" onChange={uploadLogo} className="hidden" />
+                            </label>
+                            {customLogo && (
+                                <div className="flex items-center gap-2">
+                                    <img src={customLogo} alt="" className="h-5 max-w-[60px] object-contain bg-neutral-700 rounded" />
+                                    <button onClick={() => { setCustomLogo(null); if (logo.brand === 'custom') updateLogo({ brand: 'auto' }); }}
+                                        className="text-[10px] text-neutral-500 hover:text-red-500">{t('logo_remove')}</button>
+                                </div>
+                            )}
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-[10px] text-neutral-500">{t('logo_position')}</span>
+                            <select value={logo.slot} onChange={(e) => updateLogo({ slot: e.target.value as LogoSettings['slot'] })}
+                                className="w-1/2 bg-neutral-900 border border-neutral-800 rounded py-1 px-1 text-[10px] text-neutral-300 focus:outline-none">
+                                {CAPTION_SLOTS.map(slot => <option key={slot} value={slot}>{t(`slot_${slot.replace('-', '_')}` as keyof typeof TRANSLATIONS.en)}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('size')}</span><span>{logo.size.toFixed(1)}</span></div>
+                            <input type="range" min="0.6" max="5" step="0.1" value={logo.size} onChange={(e) => updateLogo({ size: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                        </div>
+                        <p className="text-[9px] text-neutral-600">{t('logo_layouts_only')}</p>
+                    </div>
+                )}
+
+                <button onClick={() => setWatermarkExpanded(!watermarkExpanded)}
+                    className="w-full flex items-center justify-between p-3 bg-neutral-900/50 hover:bg-neutral-900 transition-colors">
+                     <div className="flex items-center gap-2">
+                        <Stamp size={14} className="text-neutral-500" />
+                        <span className="text-[10px] font-bold text-neutral-400 uppercase tracking-widest">{t('watermark')}</span>
+                     </div>
+                     {watermarkExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                </button>
+
+                {watermarkExpanded && (
+                    <div className="p-3 space-y-3 border-t border-neutral-800">
+                        <div className="grid grid-cols-3 gap-2">
+                            <button onClick={() => updateWatermark({ enabled: !watermark.enabled })}
+                                className={`text-[10px] py-1.5 rounded border transition-colors
+                                    ${watermark.enabled ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                {watermark.enabled ? t('on') : t('off')}
+                            </button>
+                            {(['text', 'image'] as const).map(kind => (
+                                <button key={kind} onClick={() => updateWatermark({ kind })}
+                                    className={`text-[10px] py-1.5 rounded border transition-colors
+                                        ${watermark.kind === kind ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {t(`watermark_${kind}`)}
+                                </button>
+                            ))}
+                        </div>
+                        {watermark.kind === 'text' ? (
+                            <div className="space-y-2">
+                                <input type="text" value={watermark.text} onChange={(e) => updateWatermark({ text: e.target.value })}
+                                    className="w-full bg-neutral-900 border border-neutral-800 rounded py-1.5 px-3 text-xs text-neutral-300 placeholder-neutral-600 focus:outline-none focus:border-neutral-600" placeholder={t('watermark_text')} />
+                                <div className="flex items-center gap-2">
+                                    <select value={watermark.font} onChange={(e) => updateWatermark({ font: e.target.value })}
+                                        className="flex-1 bg-neutral-900 border border-neutral-800 rounded py-1 px-1 text-[10px] text-neutral-300 focus:outline-none">
+                                        {(FONT_CHOICES.includes(watermark.font) ? FONT_CHOICES : [watermark.font, ...FONT_CHOICES]).map(f => (
+                                            <option key={f} value={f}>{f.split(',')[0]}</option>
+                                        ))}
+                                    </select>
+                                    <input type="color" value={watermark.color} onChange={(e) => updateWatermark({ color: e.target.value })}
+                                        className="w-6 h-6 bg-transparent border-0 cursor-pointer" />
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="flex items-center justify-between gap-2">
+                                <label className="flex items-center gap-1 text-[10px] text-neutral-400 hover:text-white cursor-pointer">
+                                    <ImageUp size={12} /> {t('watermark_upload')}
+                                    <input type="file" accept="image/svg+xml,image/png" onChange={uploadWatermark} className="hidden" />
+                                </label>
+                                {watermarkImage && (
+                                    <div className="flex items-center gap-2">
+                                        <img src={watermarkImage} alt="" className="h-5 max-w-[60px] object-contain bg-neutral-700 rounded" />
+                                        <button onClick={() => setWatermarkImage(null)}
+                                            className="text-[10px] text-neutral-500 hover:text-red-500">{t('logo_remove')}</button>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        <div className="grid grid-cols-2 gap-2">
+                            {(['photo', 'border'] as const).map(area => (
+                                <button key={area} onClick={() => updateWatermark({ area })}
+                                    className={`text-[10px] py-1.5 rounded border transition-colors
+                                        ${watermark.area === area ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {t(`watermark_on_${area}`)}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <div className={watermark.tiled ? 'opacity-30 pointer-events-none' : ''}>
+                                <span className="block text-[10px] text-neutral-500 mb-1">{t('watermark_anchor')}</span>
+                                <div className="grid grid-cols-3 gap-1 w-[54px]">
+                                    {WATERMARK_ANCHORS.map((anchor: WatermarkAnchor) => (
+                                        <button key={anchor} onClick={() => updateWatermark({ anchor })} title={anchor}
+                                            className={`h-4 rounded-sm border transition-colors
+                                                ${watermark.anchor === anchor ? 'bg-white border-white' : 'border-neutral-700 hover:border-neutral-500'}`} />
+                                    ))}
+                                </div>
+                            </div>
+                            <button onClick={toggleWatermarkTiled}
+                                className={`text-[10px] px-3 py-1.5 rounded border transition-colors
+                                    ${watermark.tiled ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                {t('watermark_tiled')}
+                            </button>
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('opacity')}</span><span>{Math.round(watermark.opacity * 100)}%</span></div>
+                            <input type="range" min="0.05" max="1" step="0.05" value={watermark.opacity} onChange={(e) => updateWatermark({ opacity: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('watermark_scale')}</span><span>{watermark.scale}%</span></div>
+                            <input type="range" min="2" max="60" step="1" value={watermark.scale} onChange={(e) => updateWatermark({ scale: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('watermark_rotation')}</span><span>{watermark.rotation}°</span></div>
+                            <input type="range" min="-90" max="90" step="1" value={watermark.rotation} onChange={(e) => updateWatermark({ rotation: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{watermark.tiled ? t('watermark_spacing') : t('watermark_offset')}</span><span>{watermark.offset}%</span></div>
+                            <input type="range" min="0" max="20" step="0.5" value={watermark.offset} onChange={(e) => updateWatermark({ offset: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                        </div>
+                        <p className="text-[9px] text-neutral-600">{t('watermark_all_photos')}</p>
+                    </div>
+                )}
+            </section>
+
+            {/* 7. Data Input */}
             <section className="border-t border-neutral-800 pt-4">
+                {currentImage && (currentImage.exif || currentImage.metadataOverrides) && (
+                    <div className="flex items-center justify-between mb-2">
+                        {currentImage.exif ? (
+                            <span className="text-[9px] font-bold tracking-widest text-emerald-500 border border-emerald-900/50 rounded px-1.5 py-0.5">{t('exif_detected')}</span>
+                        ) : <span />}
+                        {currentImage.metadataOverrides && (
+                            <button onClick={resetMetadataOverrides} className="flex items-center gap-1 text-[10px] text-neutral-500 hover:text-white">
+                                <RotateCcw size={10} /> {t('reset_exif')}
+                            </button>
+                        )}
+                    </div>
+                )}
                 <div className="space-y-2">
-                    <input type="text" value={metadata.camera} onChange={(e) => setMetadata({...metadata, camera: e.target.value})}
+                    <input type="text" value={currentMetadata.camera} onChange={(e) => updateMetadataField('camera', e.target.value)}
                         className="w-full bg-neutral-900 border border-neutral-800 rounded py-1.5 px-3 text-xs text-neutral-300 placeholder-neutral-600 focus:outline-none focus:border-neutral-600" placeholder={t('camera_model')} />
                     
-                    <input type="text" value={metadata.lens} onChange={(e) => setMetadata({...metadata, lens: e.target.value})}
+                    <input type="text" value={currentMetadata.lens} onChange={(e) => updateMetadataField('lens', e.target.value)}
                         className="w-full bg-neutral-900 border border-neutral-800 rounded py-1.5 px-3 text-xs text-neutral-300 placeholder-neutral-600 focus:outline-none focus:border-neutral-600" placeholder={t('lens_info')} />
 
                     <div className="flex gap-2">
-                         <input type="text" value={metadata.settings} onChange={(e) => setMetadata({...metadata, settings: e.target.value})}
+                         <input type="text" value={currentMetadata.settings} onChange={(e) => updateMetadataField('settings', e.target.value)}
                             className="w-1/2 bg-neutral-900 border border-neutral-800 rounded py-1.5 px-3 text-xs text-neutral-300 placeholder-neutral-600 focus:outline-none focus:border-neutral-600" placeholder={t('settings_placeholder')} />
-                         <input type="text" value={metadata.date} onChange={(e) => setMetadata({...metadata, date: e.target.value})}
+                         <input type="text" value={currentMetadata.date} onChange={(e) => updateMetadataField('date', e.target.value)}
                             className="w-1/2 bg-neutral-900 border border-neutral-800 rounded py-1.5 px-3 text-xs text-neutral-300 placeholder-neutral-600 focus:outline-none focus:border-neutral-600" placeholder={t('date_placeholder')} />
                     </div>
-                    {quartzEnabled && (
-                        <input type="text" value={metadata.quartzDate} onChange={(e) => setMetadata({...metadata, quartzDate: e.target.value})}
+                    <div className="flex gap-2">
+                        {(['make', 'model'] as const).map(field => (
+                            <input key={field} type="text" value={currentMetadata[field]} onChange={(e) => updateMetadataField(field, e.target.value)}
+                                className="w-1/2 bg-neutral-900 border border-neutral-800 rounded py-1.5 px-3 text-xs text-neutral-300 placeholder-neutral-600 focus:outline-none focus:border-neutral-600" placeholder={t(`${field}_placeholder`)} />
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                        {(['focal', 'aperture', 'shutter', 'iso'] as const).map(field => (
+                            <input key={field} type="text" value={currentMetadata[field]} onChange={(e) => updateMetadataField(field, e.target.value)}
+                                className="min-w-0 bg-neutral-900 border border-neutral-800 rounded py-1.5 px-2 text-xs text-neutral-300 font-mono placeholder-neutral-600 focus:outline-none focus:border-neutral-600" placeholder={t(`${field}_placeholder`)} />
+                        ))}
+                    </div>
+                    {markings.quartz && (
+                        <input type="text" value={currentMetadata.quartzDate} onChange={(e) => updateMetadataField('quartzDate', e.target.value)}
                             className="w-full bg-neutral-900 border border-orange-900/30 rounded py-1.5 px-3 text-xs text-orange-400 font-mono focus:outline-none focus:border-orange-700" placeholder={t('quartz_placeholder')} />
                     )}
                 </div>
             </section>
 
+            {/* 8. Export */}
+            <section className="border border-neutral-800 rounded-lg overflow-hidden bg-neutral-900/20">
+                <button onClick={() => setExportExpanded(!exportExpanded)}
+                    className="w-full flex items-center justify-between p-3 bg-neutral-900/50 hover:bg-neutral-900 transition-colors">
+                     <div className="flex items-center gap-2">
+                        <Download size={14} className="text-neutral-500" />
+                        <span className="text-[10px] font-bold text-neutral-400 uppercase tracking-widest">{t('export_settings')}</span>
+                     </div>
+                     {exportExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                </button>
+
+                {exportExpanded && (
+                    <div className="p-3 space-y-4 border-t border-neutral-800">
+                        <div className="space-y-2">
+                            <label className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('format')}</label>
+                            <div className="grid grid-cols-3 gap-2">
+                                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+                                    <button key={f} onClick={() => updateExportSettings({ format: f })}
+                                        className={`text-[10px] py-1.5 rounded border uppercase transition-colors
+                                            ${exportSettings.format === f ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}
+                                    >
+                                        {f}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {EXPORT_FORMATS[exportSettings.format].lossy && (
+                            <div>
+                                <div className="flex justify-between text-[10px] text-neutral-500 mb-1"><span>{t('quality')}</span><span>{Math.round(exportSettings.quality*100)}%</span></div>
+                                <input type="range" min="0.5" max="1" step="0.01" value={exportSettings.quality} onChange={(e) => updateExportSettings({ quality: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                            </div>
+                        )}
+                        <div>
+                            <div className="flex justify-between text-[10px] text-neutral-500 mb-1">
+                                <span>{t('max_edge')}</span>
+                                <span>{exportSettings.maxEdge > 0 ? `${exportSettings.maxEdge}px` : t('original_size')}</span>
+                            </div>
+                            <input type="range" min="0" max="8000" step="100" value={exportSettings.maxEdge} onChange={(e) => updateExportSettings({ maxEdge: Number(e.target.value) })} className="w-full h-1 bg-neutral-700 rounded-lg accent-white" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('filename')}</label>
+                            <input type="text" value={exportSettings.filenameTemplate} onChange={(e) => updateExportSettings({ filenameTemplate: e.target.value })}
+                                className="w-full bg-neutral-900 border border-neutral-800 rounded py-1.5 px-3 text-xs text-neutral-300 font-mono placeholder-neutral-600 focus:outline-none focus:border-neutral-600" />
+                            <p className="text-[9px] text-neutral-600 font-mono">{t('filename_hint')}</p>
+                        </div>
+                        <div className="space-y-1 pt-2 border-t border-neutral-800/50">
+                            <div className="grid grid-cols-2 gap-2">
+                                <button onClick={() => updateExportSettings({ keepMetadata: !exportSettings.keepMetadata })}
+                                    className={`text-[10px] py-1.5 rounded border transition-colors
+                                        ${exportSettings.keepMetadata ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {t('keep_metadata')}
+                                </button>
+                                <button onClick={() => updateExportSettings({ stripLocation: !exportSettings.stripLocation })} disabled={!exportSettings.keepMetadata}
+                                    className={`text-[10px] py-1.5 rounded border transition-colors disabled:opacity-30
+                                        ${exportSettings.stripLocation ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                    {t('strip_location')}
+                                </button>
+                            </div>
+                            <p className="text-[9px] text-neutral-600">{t('jpeg_only')}</p>
+                        </div>
+                        <div className="space-y-2 pt-2 border-t border-neutral-800/50">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-[10px] text-neutral-500 uppercase tracking-wider">{t('contact_sheet')}</span>
+                                <div className="flex gap-1 items-center">
+                                    <span className="text-[9px] text-neutral-600">{t('frames_per_strip')}</span>
+                                    {CONTACT_STRIP_FRAMES.map(n => (
+                                        <button key={n} onClick={() => updateExportSettings({ contactFrames: n })}
+                                            className={`text-[10px] px-2 py-1 rounded border transition-colors
+                                                ${exportSettings.contactFrames === n ? 'bg-white text-black border-white' : 'text-neutral-400 border-neutral-700 hover:border-neutral-500'}`}>
+                                            {n}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <button onClick={handleContactSheetExport} disabled={queue.length === 0 || isBatchProcessing}
+                                className="w-full text-[10px] py-1.5 rounded border text-neutral-300 border-neutral-700 hover:border-neutral-500 disabled:opacity-30 transition-colors">
+                                {t('export_contact_sheet')} ({queue.length})
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </section>
+
           </div>
         </div>
 
         {/* Footer */}
-        <div className="p-4 md:p-5 border-t border-neutral-800 bg-black shrink-0 flex gap-3">
+        {(batchProgress || batchReport) && (
+            <div className="px-4 md:px-5 pt-3 border-t border-neutral-800 bg-black shrink-0 space-y-2">
+                {batchProgress && (
+                    <div className="flex items-center gap-3">
+                        <div className="flex-1 h-1 bg-neutral-800 rounded overflow-hidden">
+                            <div className="h-full bg-white transition-all" style={{ width: `${(batchProgress.done / batchProgress.total) * 100}%` }} />
+                        </div>
+                        <span className="text-[10px] font-mono text-neutral-400">{batchProgress.done + 1} / {batchProgress.total}</span>
+                        <button onClick={cancelBatchExport} className="text-[10px] font-bold text-red-700 hover:text-red-500">{t('cancel')}</button>
+                    </div>
+                )}
+                {batchReport && (
+                    <div className="text-[10px] text-neutral-400 space-y-1">
+                        <div className="flex items-center justify-between">
+                            <span>
+                                {t('batch_summary').replace('{done}', String(batchReport.exported)).replace('{total}', String(batchReport.total))}
+                                {batchReport.cancelled && <span className="text-orange-500"> · {t('batch_cancelled')}</span>}
+                            </span>
+                            <button onClick={() => setBatchReport(null)} className="text-neutral-600 hover:text-white"><X size={12} /></button>
+                        </div>
+                        {batchReport.failures.map((f, i) => (
+                            <div key={i} className="text-red-500 truncate" title={f.reason}>{t('batch_failed')}: {f.name} — {f.reason}</div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
+        <div className="px-4 md:px-5 pt-3 bg-black shrink-0 border-t border-neutral-800">
+            <button onClick={() => setZipBatch(!zipBatch)} disabled={isBatchProcessing}
+                className={`flex items-center gap-2 text-[10px] uppercase tracking-wider transition-colors ${zipBatch ? 'text-white' : 'text-neutral-600 hover:text-neutral-400'}`}>
+                <Archive size={12} /> {t('zip_archive')}
+            </button>
+        </div>
+        <div className="p-4 md:p-5 pt-3 md:pt-3 bg-black shrink-0 flex gap-3">
             <button onClick={handleSingleExport} disabled={!currentImage || isBatchProcessing}
                 className="flex-1 flex items-center justify-center gap-2 bg-neutral-800 text-neutral-200 font-bold text-xs py-3 rounded hover:bg-neutral-700 disabled:opacity-50 transition-all">
                 <Download size={14} /> <span>{t('save')}</span>
@@ -926,16 +2850,17 @@ export default function App() {
             </div>
           )}
           
-          <canvas ref={canvasRef} className="hidden" />
-          
-          {previewUrl && currentImage && (
-            <div className="relative group shadow-2xl shadow-black transition-transform duration-500">
-                 <img src={previewUrl} alt="Preview" className="max-w-full max-h-[40vh] md:max-h-[85vh] object-contain" style={{ boxShadow: '0 30px 60px -15px rgba(0, 0, 0, 0.6)' }} />
+          {currentImage && (
+            <div className={`relative group shadow-2xl shadow-black transition-transform duration-500 ${hasPreview ? '' : 'hidden'}`}>
+                 <canvas ref={previewCanvasRef} aria-label="Preview" className="max-w-full max-h-[40vh] md:max-h-[85vh] object-contain" style={{ boxShadow: '0 30px 60px -15px rgba(0, 0, 0, 0.6)' }} />
                  <div className="absolute bottom-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity bg-black/60 backdrop-blur px-2 py-1 text-[10px] font-mono text-white rounded">
-                    {currentImage.metrics.width} &times; {currentImage.metrics.height}
+                    {stageSize?.width} &times; {stageSize?.height}
                  </div>
             </div>
           )}
+          {currentImage && previewFailed && (
+            <p className="mt-3 text-[10px] text-red-400">{t('preview_failed')}</p>
+          )}
         </div>
       </main>
     </div>
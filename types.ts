@@ -0,0 +1,375 @@
+// --- Shared Types ---
+
+export interface Color {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// A palette entry and how much of the photo it covers
+export interface PaletteColor extends Color {
+  weight: number; // share of sampled pixels, 0..1
+}
+
+export interface Margins {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface Metadata {
+  camera: string;
+  lens: string;
+  settings: string;
+  date: string;
+  quartzDate: string;
+  signature: string;
+  // Single EXIF values for caption templates
+  make: string;
+  model: string;
+  focal: string;
+  aperture: string;
+  shutter: string;
+  iso: string;
+  showMetadata: boolean;
+}
+
+export type BorderMode = 'simple' | 'advanced' | 'target';
+
+export type TargetUnit = 'ratio' | 'in' | 'mm';
+
+// Target canvas mode: fixed output aspect (or physical print size)
+export interface TargetCanvas {
+  width: number;
+  height: number;
+  unit: TargetUnit; // 'ratio' = plain aspect ratio, no physical size
+  dpi: number; // print sizes only
+  minBorder: number; // % of the long edge kept free on every side
+  matchOrientation: boolean; // swap width/height to follow the photo
+}
+
+// Passe-partout inside the border: a second board around the photo
+export interface MatSettings {
+  enabled: boolean;
+  color: string;
+  width: number; // % of the long edge per side, on top of the border
+  bevel: boolean; // cut window edges catching the light
+  keyline: number; // line around the photo, ‰ of the long edge; 0 = none
+  keylineColor: string;
+}
+
+export interface BorderSettings {
+  mode: BorderMode;
+  scale: number; // % of the long edge, simple mode
+  margins: Margins; // % of the long edge per side, advanced mode
+  target: TargetCanvas;
+  mat: MatSettings;
+  photoRadius: number; // corner radius, % of the photo's short edge
+  canvasRadius: number; // corner radius, % of the canvas's short edge; rounded corners are transparent
+}
+
+// Frame shape: polaroid chin, negative sprockets, cinema bars
+export type LayoutStyle = 'gallery' | 'polaroid' | 'negative' | 'cinema';
+
+export type CaptionSlot = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+// Which of the style's font families a caption line uses
+export type CaptionFont = 'title' | 'body' | 'script';
+
+// One line of text in the border, e.g. "{focal}mm  f/{aperture}  {shutter}s  ISO{iso}"
+export interface CaptionLine {
+  template: string;
+  slot: CaptionSlot;
+  font: CaptionFont;
+  weight: number; // CSS font weight, 100..900
+  italic: boolean;
+  uppercase: boolean;
+  size: number; // multiple of the frame's base font size
+  tracking: number; // letter spacing in em
+  opacity: number; // 0..1
+  signatureFallback?: boolean; // printed only while the signature is off, in its place
+}
+
+export interface FrameStyle {
+  layout: LayoutStyle;
+  bg: string;
+  text: string;
+  titleFont: string;
+  bodyFont: string;
+  scriptFont: string;
+  captions: CaptionLine[]; // lines sharing a slot stack top to bottom
+}
+
+export type BackgroundMode = 'solid' | 'ambient' | 'dominant' | 'gradient' | 'paper';
+
+export type PaperTexture = 'paper' | 'canvas';
+
+// How the border is filled. 'solid' and 'paper' use style.bg; the other modes derive their colours
+export interface BackgroundSettings {
+  mode: BackgroundMode;
+  blur: number; // ambient: blur radius, % of the canvas long edge
+  dim: number; // ambient: 0..1 darkening over the blurred photo
+  gradientFrom: string;
+  gradientTo: string;
+  gradientAngle: number; // degrees, 0 = left to right
+  texture: PaperTexture;
+  textureStrength: number; // 0..1
+  autoText: boolean; // pick a contrast-safe text colour on derived backgrounds
+}
+
+export interface FilterSettings {
+  type: string;
+  strength: number;
+  radius: number;
+  threshold: number; // halation/bloom: luminance where highlights start to glow, 0..1
+  tint: string; // halation/bloom glow colour
+}
+
+export interface GrainSettings {
+  size: number; // 0.5..3, 1 = 2400 grains across the long edge
+  amount: number; // 0..1
+  roughness: number; // 0 smooth .. 1 sharp and clumpy
+  chroma: number; // 0 monochrome .. 1 independent colour grain per channel
+}
+
+export type LeakStyle = 'edge-burn' | 'corner-flare' | 'streak' | 'prism' | 'fog';
+
+export interface LeakSettings {
+  style: LeakStyle;
+  color: string; // prism: hue of the first band
+  intensity: number; // 0..1
+  position: number; // where the light enters, 0..1 clockwise around the photo from its top-left corner
+  angle: number; // degrees away from pointing at the photo centre, -90..90
+  randomize: boolean; // position, angle and intensity from each photo's seed instead
+  variant: number; // bumped to reshuffle randomised leaks
+}
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+export interface LutSettings {
+  id: string; // built-in look or uploaded LUT id, '' = none
+  intensity: number; // 0..1
+  interpolation: LutInterpolation;
+}
+
+// A 3D LUT: size^3 RGB triples in 0..1, red varying fastest
+export interface CubeLut {
+  id: string;
+  name: string;
+  size: number;
+  data: Float32Array;
+  // Input range the grid spans, per channel; absent for the default 0..1
+  domainMin?: number[];
+  domainMax?: number[];
+}
+
+export interface VignetteSettings {
+  amount: number; // -1 darken .. 1 lighten, 0 = off
+  midpoint: number; // 0 reaches far into the photo .. 1 only the corners
+  roundness: number; // -1 rectangular .. 0 follows the frame .. 1 circular
+  feather: number; // 0 hard edge .. 1 very soft
+}
+
+export interface LensSettings {
+  vignette: VignetteSettings;
+  aberration: number; // lateral chromatic aberration, 0..1
+  distortion: number; // -1 pincushion .. 1 barrel
+}
+
+export interface OpticsSettings {
+  lens: LensSettings;
+  lut: LutSettings;
+  shadow: boolean;
+  texture: boolean; // film grain on/off
+  grain: GrainSettings;
+  leak: boolean; // light leak on/off
+  lightLeak: LeakSettings;
+  filter: FilterSettings;
+}
+
+// Camera brand mark next to the captions (gallery and polaroid layouts)
+export interface LogoSettings {
+  enabled: boolean;
+  brand: string; // 'auto' (from make/camera), a built-in brand id, or 'custom' (uploaded logo)
+  slot: CaptionSlot; // stacked above the caption lines of that slot
+  size: number; // height as a multiple of the frame's base font size
+  monochrome: boolean; // draw built-in marks in the frame's text colour
+}
+
+export type WatermarkAnchor =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'middle-left' | 'center' | 'middle-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+// Studio mark stamped over the frame: an uploaded image or a line of text
+export interface WatermarkSettings {
+  enabled: boolean;
+  kind: 'image' | 'text';
+  text: string;
+  font: string;
+  color: string;
+  anchor: WatermarkAnchor;
+  area: 'photo' | 'border'; // anchored inside the photo, or in the margins around it
+  opacity: number;
+  scale: number; // long side of the mark, % of the photo's long edge
+  rotation: number; // degrees
+  offset: number; // distance from the anchored edges, % of the photo's long edge
+  tiled: boolean; // repeat diagonally across the area, for proofs
+}
+
+// Film base colour on the negative layout: the style's border colour, the orange mask, or a pick
+export type RebateTint = 'style' | 'orange' | 'custom';
+
+// 35mm strip drawn by the negative layout and the contact sheet
+export interface FilmSettings {
+  stock: string; // edge print name, e.g. "KODAK PORTRA 400"
+  frame: number; // first frame number; queue position counts up from here
+  pitch: number; // perforation pitch in mm
+  edgePrint: boolean;
+  dxCode: boolean;
+  rebate: RebateTint;
+  rebateColor: string;
+}
+
+export type SwatchShape = 'circle' | 'square' | 'rounded';
+
+// Colour palette printed under the photo (shown when markings.palette is on)
+export interface PaletteSettings {
+  count: number; // 3..10 swatches
+  sort: 'dominance' | 'hue';
+  labels: 'none' | 'hex' | 'rgb';
+  shape: SwatchShape;
+  size: number; // swatch size as a multiple of the default
+}
+
+// Quartz date back: LED digits exposed onto the film in a corner of the photo
+export type QuartzFormat = 'ymd' | 'mdy' | 'dmy' | 'time';
+export type QuartzGlyphs = 'segment' | 'matrix';
+export type QuartzColor = 'orange' | 'red' | 'yellow';
+export type QuartzCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface QuartzSettings {
+  glyphs: QuartzGlyphs; // seven-segment or dot-matrix LEDs
+  format: QuartzFormat; // order of automatic dates; manual text is printed as typed
+  color: QuartzColor;
+  corner: QuartzCorner;
+  rotation: number; // degrees; ±90 reads along the long side of portrait photos
+  size: number; // digit height, % of the photo's long edge
+  auto: boolean; // print each photo's capture time in `format`; off prints the quartz date text (typed or from EXIF) as is
+  yearOffset: number; // added to automatic years
+}
+
+export interface MarkingSettings {
+  quartz: boolean;
+  signature: boolean;
+  palette: boolean;
+}
+
+/**
+ * Everything the renderer needs to draw a frame.
+ * Plain data only, so it can be stored, copied between images and posted to a worker.
+ */
+export interface RenderSettings {
+  version: number;
+  preset: string; // id of the built-in or user preset the look came from
+  style: FrameStyle;
+  border: BorderSettings;
+  optics: OpticsSettings;
+  markings: MarkingSettings;
+  quartz: QuartzSettings;
+  logo: LogoSettings;
+  film: FilmSettings;
+  palette: PaletteSettings;
+  background: BackgroundSettings;
+  metadata: Metadata;
+}
+
+export type SettingsSection = Exclude<keyof RenderSettings, 'version' | 'preset'>;
+
+// A saved look. Metadata is left out: captions belong to the photo, not the preset.
+export interface UserPreset {
+  id: string;
+  name: string;
+  settings: Omit<RenderSettings, 'metadata'>;
+}
+
+export type CropAspect = 'original' | '3:2' | '4:5' | '1:1' | '16:9' | '2.39:1';
+
+// Per-photo crop, applied at render time; the source pixels are never changed
+export interface CropSettings {
+  aspect: CropAspect; // presets follow the photo's orientation
+  swap: boolean; // use the other orientation of the aspect
+  angle: number; // straighten, degrees clockwise, -45..45
+  turns: number; // quarter turns clockwise, 0..3
+  flipH: boolean;
+  flipV: boolean;
+  zoom: number; // 1 = largest crop that fits, up to 4
+  panX: number; // -1..1 across the room left by the crop
+  panY: number;
+}
+
+// Images drawn alongside the photo that do not belong to any one queue item
+export interface FrameAssets {
+  logo?: ImageBitmap; // uploaded custom logo
+  watermark?: ImageBitmap; // uploaded watermark image
+  luts?: Record<string, CubeLut>; // uploaded LUTs by id
+}
+
+export type CompositionLayout = 'side-by-side' | 'stacked' | 'grid-2' | 'grid-3' | 'feature';
+
+// Several photos framed as one: pairs, triptychs, grids
+export interface CompositionSettings {
+  layout: CompositionLayout;
+  gutter: number; // % of the composition's long edge
+  aspect: CropAspect; // shape of every cell; 'original' follows the first photo
+  fit: 'crop' | 'contain'; // fill the cell and crop, or show the whole photo inside it
+}
+
+// A decoded photo ready to be framed
+export interface FrameImage {
+  source: CanvasImageSource;
+  assets?: FrameAssets;
+  crop?: CropSettings;
+  // Size the (cropped) photo is drawn at
+  width: number;
+  height: number;
+  colors: PaletteColor[];
+  seed?: number; // per-photo seed for procedural effects, so every render matches
+  // Output pixels per original pixel: below 1 for preview proxies, 1 (default) for export
+  scale?: number;
+  // Exact canvas size of a print export; target margins are fitted to it instead of derived
+  canvasSize?: { width: number; height: number };  // Stamped over the frame; shared by every photo rather than part of its settings
+  watermark?: WatermarkSettings;
+}
+
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// --- Render Worker Protocol ---
+
+export type RenderWorkerRequest =
+  | { type: 'load'; id: number; bitmap: ImageBitmap }
+  | { type: 'retain'; ids: number[] }
+  | { type: 'asset'; key: 'logo' | 'watermark'; bitmap: ImageBitmap | null }
+  | { type: 'luts'; luts: Record<string, CubeLut> }
+  | { type: 'render'; jobId: number; id: number; width: number; height: number; scale: number; colors: PaletteColor[]; seed: number; crop: CropSettings | null; watermark: WatermarkSettings | null; settings: RenderSettings };
+
+export type RenderWorkerResponse =
+  | { type: 'rendered'; jobId: number; bitmap: ImageBitmap }
+  | { type: 'skipped'; jobId: number }
+  | { type: 'failed'; jobId: number; reason: string };
+
+// --- Export ---
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number; // 0..1, ignored for PNG
+  maxEdge: number; // long edge of the exported canvas in px, 0 = original size
+  filenameTemplate: string; // tokens: {name} {index} {preset} {camera} {date}
+  keepMetadata: boolean; // copy EXIF/ICC from JPEG sources into JPEG exports
+  stripLocation: boolean;
+  contactFrames: number; // frames per strip on the contact sheet
+}
@@ -0,0 +1,219 @@
+import { BackgroundSettings, Color, FrameStyle, PaletteColor, PaperTexture, RenderContext } from '../types';
+import { mixColors, parseHex, readableTextColor, toHex } from './color';
+import { createCanvas, getContext } from './renderer';
+import { createRandom } from './random';
+
+/**
+ * Border backgrounds.
+ * Every mode also yields one flat colour standing in for it: the shadow backing
+ * and the automatic text colour are both judged against that colour.
+ */
+
+export interface FrameColors {
+  bg: string;
+  text: string;
+}
+
+const BLACK: Color = { r: 0, g: 0, b: 0 };
+
+// Long edge of the scratch canvas the ambient blur is computed at
+const AMBIENT_EDGE = 256;
+// Texture tiles are generated at this size and scaled with the canvas
+const TILE_SIZE = 256;
+// Canvas long edge at which one tile pixel maps to one output pixel
+const TEXTURE_REFERENCE_EDGE = 2400;
+
+const averageColor = (colors: PaletteColor[]): Color | null => {
+  const total = colors.reduce((sum, c) => sum + c.weight, 0);
+  if (total <= 0) return null;
+  return colors.reduce<Color>((acc, c) => ({
+    r: acc.r + (c.r * c.weight) / total,
+    g: acc.g + (c.g * c.weight) / total,
+    b: acc.b + (c.b * c.weight) / total,
+  }), { r: 0, g: 0, b: 0 });
+};
+
+const representativeColor = (background: BackgroundSettings, colors: PaletteColor[]): Color | null => {
+  switch (background.mode) {
+    case 'dominant':
+      return colors.reduce<PaletteColor | null>((best, c) => (!best || c.weight > best.weight ? c : best), null);
+    case 'ambient': {
+      const average = averageColor(colors);
+      return average && mixColors(average, BLACK, background.dim);
+    }
+    case 'gradient': {
+      const from = parseHex(background.gradientFrom), to = parseHex(background.gradientTo);
+      return from && to ? mixColors(from, to, 0.5) : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const resolveFrameColors = (style: FrameStyle, background: BackgroundSettings, colors: PaletteColor[]): FrameColors => {
+  const derived = representativeColor(background, colors);
+  if (!derived) return { bg: style.bg, text: style.text };
+  return { bg: toHex(derived), text: background.autoText ? readableTextColor(derived) : style.text };
+};
+
+// -- Paper Textures --
+// Tileable value noise: random values on a wrapping grid, smoothly interpolated
+const valueNoise = (random: () => number, cells: number) => {
+  const grid = Array.from({ length: cells * cells }, random);
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+  return (x: number, y: number) => {
+    const gx = (x / TILE_SIZE) * cells, gy = (y / TILE_SIZE) * cells;
+    const x0 = Math.floor(gx), y0 = Math.floor(gy);
+    const tx = smooth(gx - x0), ty = smooth(gy - y0);
+    const at = (cx: number, cy: number) => grid[((cy % cells) * cells) + (cx % cells)];
+    const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * tx;
+    const bottom = at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * tx;
+    return top + (bottom - top) * ty;
+  };
+};
+
+// Signed shade per tile pixel: -1 darkens, +1 lightens
+const paperShade = (random: () => number) => {
+  const clouds = valueNoise(random, 8);
+  const pulp = valueNoise(random, 32);
+  const shade = new Float32Array(TILE_SIZE * TILE_SIZE);
+  for (let y = 0; y < TILE_SIZE; y++) {
+    for (let x = 0; x < TILE_SIZE; x++) {
+      shade[y * TILE_SIZE + x] = (clouds(x, y) - 0.5) * 0.6 + (pulp(x, y) - 0.5) * 0.5 + (random() - 0.5) * 0.35;
+    }
+  }
+  // Fibres: short, faint strokes in random directions
+  for (let f = 0; f < 140; f++) {
+    let x = random() * TILE_SIZE, y = random() * TILE_SIZE;
+    const angle = random() * Math.PI * 2;
+    const length = 6 + random() * 18;
+    const sign = random() > 0.5 ? 0.5 : -0.35;
+    for (let i = 0; i < length; i++) {
+      const index = (Math.floor(y) & (TILE_SIZE - 1)) * TILE_SIZE + (Math.floor(x) & (TILE_SIZE - 1));
+      shade[index] += sign;
+      x += Math.cos(angle);
+      y += Math.sin(angle);
+    }
+  }
+  return shade;
+};
+
+// Plain weave: alternating over/under threads, each thread with its own tone
+const canvasShade = (random: () => number) => {
+  const thread = 4;
+  const count = TILE_SIZE / thread;
+  const rows = Array.from({ length: count }, () => random() - 0.5);
+  const cols = Array.from({ length: count }, () => random() - 0.5);
+  const shade = new Float32Array(TILE_SIZE * TILE_SIZE);
+  for (let y = 0; y < TILE_SIZE; y++) {
+    for (let x = 0; x < TILE_SIZE; x++) {
+      const row = Math.floor(y / thread), col = Math.floor(x / thread);
+      const overHorizontal = (row + col) % 2 === 0;
+      // Position across the visible thread, 0 at its centre, 1 at its edges
+      const across = Math.abs(((overHorizontal ? y : x) % thread) - (thread - 1) / 2) / ((thread - 1) / 2);
+      const tone = overHorizontal ? rows[row] : cols[col];
+      shade[y * TILE_SIZE + x] = tone * 0.5 + 0.35 - across * 0.9 + (random() - 0.5) * 0.2;
+    }
+  }
+  return shade;
+};
+
+const tiles = new Map<PaperTexture, ReturnType<typeof createCanvas>>();
+
+// Light and dark specks with alpha, so one tile works on any paper colour
+const getTextureTile = (texture: PaperTexture) => {
+  const cached = tiles.get(texture);
+  if (cached) return cached;
+
+  const random = createRandom(texture === 'paper' ? 0x9a9e7 : 0xca4a5);
+  const shade = texture === 'paper' ? paperShade(random) : canvasShade(random);
+  const tile = createCanvas(TILE_SIZE, TILE_SIZE);
+  const tileCtx = getContext(tile);
+  if (tileCtx) {
+    const image = tileCtx.createImageData(TILE_SIZE, TILE_SIZE);
+    shade.forEach((value, i) => {
+      const level = value > 0 ? 255 : 0;
+      image.data[i * 4] = level;
+      image.data[i * 4 + 1] = level;
+      image.data[i * 4 + 2] = level;
+      image.data[i * 4 + 3] = Math.min(255, Math.abs(value) * 110);
+    });
+    tileCtx.putImageData(image, 0, 0);
+  }
+  tiles.set(texture, tile);
+  return tile;
+};
+
+// -- Drawing --
+// The photo scaled to cover the canvas, blurred at low resolution and scaled back up
+const drawAmbient = (ctx: RenderContext, source: CanvasImageSource, sourceW: number, sourceH: number, canvasW: number, canvasH: number, background: BackgroundSettings) => {
+  const k = AMBIENT_EDGE / Math.max(canvasW, canvasH);
+  const w = Math.max(1, Math.round(canvasW * k)), h = Math.max(1, Math.round(canvasH * k));
+  const scratch = createCanvas(w, h);
+  const sCtx = getContext(scratch);
+  if (!sCtx) return;
+
+  const blur = (background.blur / 100) * AMBIENT_EDGE;
+  // Oversize by the blur radius so the edges do not fade to transparent
+  const cover = Math.max((w + blur * 4) / sourceW, (h + blur * 4) / sourceH);
+  const dw = sourceW * cover, dh = sourceH * cover;
+  sCtx.filter = `blur(${blur}px)`;
+  sCtx.drawImage(source, (w - dw) / 2, (h - dh) / 2, dw, dh);
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(scratch, 0, 0, canvasW, canvasH);
+  ctx.fillStyle = `rgba(0, 0, 0, ${background.dim})`;
+  ctx.fillRect(0, 0, canvasW, canvasH);
+  ctx.restore();
+};
+
+const drawGradient = (ctx: RenderContext, canvasW: number, canvasH: number, background: BackgroundSettings) => {
+  const angle = (background.gradientAngle * Math.PI) / 180;
+  const dx = Math.cos(angle), dy = Math.sin(angle);
+  // Half the canvas extent along the gradient direction, so both colours reach the corners
+  const half = (Math.abs(canvasW * dx) + Math.abs(canvasH * dy)) / 2;
+  const cx = canvasW / 2, cy = canvasH / 2;
+  const gradient = ctx.createLinearGradient(cx - dx * half, cy - dy * half, cx + dx * half, cy + dy * half);
+  gradient.addColorStop(0, background.gradientFrom);
+  gradient.addColorStop(1, background.gradientTo);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvasW, canvasH);
+};
+
+const drawTexture = (ctx: RenderContext, canvasW: number, canvasH: number, background: BackgroundSettings) => {
+  const pattern = ctx.createPattern(getTextureTile(background.texture), 'repeat');
+  if (!pattern) return;
+  // Texture grain stays the same relative size at every output resolution
+  pattern.setTransform(new DOMMatrix().scaleSelf(Math.max(canvasW, canvasH) / TEXTURE_REFERENCE_EDGE));
+  ctx.save();
+  ctx.globalAlpha = background.textureStrength;
+  ctx.fillStyle = pattern;
+  ctx.fillRect(0, 0, canvasW, canvasH);
+  ctx.restore();
+};
+
+/**
+ * Fills the whole canvas; the photo is drawn on top afterwards.
+ * `colors.bg` comes from resolveFrameColors and is the fill for flat modes.
+ */
+export const drawBackground = (
+  ctx: RenderContext,
+  frame: { source: CanvasImageSource; width: number; height: number },
+  canvasW: number,
+  canvasH: number,
+  background: BackgroundSettings,
+  colors: FrameColors,
+) => {
+  ctx.fillStyle = colors.bg;
+  ctx.fillRect(0, 0, canvasW, canvasH);
+
+  if (background.mode === 'ambient') {
+    drawAmbient(ctx, frame.source, frame.width, frame.height, canvasW, canvasH, background);
+  } else if (background.mode === 'gradient') {
+    drawGradient(ctx, canvasW, canvasH, background);
+  } else if (background.mode === 'paper') {
+    drawTexture(ctx, canvasW, canvasH, background);
+  }
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { CaptionLine, RenderContext } from '../types';
+import { DEFAULT_SETTINGS } from './settings';
+import { layoutCaptions } from './captions';
+
+// Every character measures half the font size, whatever the font
+const ctx = {
+  font: '10px serif',
+  letterSpacing: '0px',
+  measureText(text: string) {
+    return { width: text.length * parseFloat(this.font.match(/([\d.]+)px/)![1]) * 0.5 };
+  },
+} as unknown as RenderContext;
+
+const line = (slot: CaptionLine['slot'], template: string): CaptionLine => ({
+  slot, template, font: 'body', weight: 400, italic: false, uppercase: false, size: 1, tracking: 0, opacity: 1,
+});
+
+const layout = (captions: CaptionLine[], width: number, baseFontSize = 20, showSignature = true) =>
+  layoutCaptions(ctx, { ...DEFAULT_SETTINGS.style, captions }, DEFAULT_SETTINGS.metadata, {
+    baseFontSize,
+    centerX: width / 2,
+    width,
+    showSignature,
+    bands: {
+      top: { centerY: 0, maxHeight: 0, left: 0, right: width },
+      bottom: { centerY: 100, maxHeight: 200, left: 0, right: width },
+    },
+  }).captions;
+
+describe('layoutCaptions', () => {
+  it('places left, centre and right slots at their anchors', () => {
+    const placed = layout([line('bottom-left', 'L'), line('bottom-center', 'C'), line('bottom-right', 'R')], 1000);
+    expect(placed.map(c => [c.text, c.x, c.align])).toEqual([['C', 500, 'center'], ['L', 0, 'left'], ['R', 1000, 'right']]);
+    placed.forEach(c => expect(c.y).toBe(100));
+  });
+
+  it('prints a signature fallback only while the signature is off', () => {
+    const captions = [line('bottom-right', '{signature}'), { ...line('bottom-right', '{date}'), signatureFallback: true }];
+    const { signature, date } = DEFAULT_SETTINGS.metadata;
+    expect(layout(captions, 1000).map(c => c.text)).toEqual([signature]);
+    expect(layout(captions, 1000, 20, false).map(c => c.text)).toEqual([date]);
+  });
+
+  it('shrinks a line that is wider than its slot', () => {
+    const [placed] = layout([line('bottom-center', 'X'.repeat(200))], 1000);
+    expect(parseFloat(placed.font.match(/([\d.]+)px/)![1]) * 0.5 * 200).toBeCloseTo(1000, 6);
+  });
+
+  it('keeps the side captions next to a wide centre block in a narrow band', () => {
+    // The gap alone (the base font size) is wider than a quarter of the band
+    const placed = layout([
+      line('bottom-left', 'LEFT'),
+      line('bottom-center', 'X'.repeat(100)),
+      line('bottom-right', 'RIGHT'),
+    ], 100, 40);
+    const sizes = Object.fromEntries(placed.map(c => [c.text, parseFloat(c.font.match(/([\d.]+)px/)![1])]));
+    expect(sizes.LEFT).toBeGreaterThan(0);
+    expect(sizes.RIGHT).toBeGreaterThan(0);
+    placed.filter(c => c.align !== 'center').forEach(c => {
+      expect(c.text.length * sizes[c.text] * 0.5).toBeLessThanOrEqual(100 * 0.25 + 1e-9);
+    });
+  });
+});
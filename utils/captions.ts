@@ -0,0 +1,179 @@
+import { CaptionLine, CaptionSlot, FrameStyle, Metadata, RenderContext } from '../types';
+
+/**
+ * Caption layout engine.
+ * Resolves template lines against the photo's metadata, stacks them per slot
+ * and shrinks a slot's text until it fits the border it sits in.
+ */
+
+// Tokens a template may use, in the order the editor lists them
+export const CAPTION_TOKENS = [
+  'camera', 'lens', 'settings', 'date', 'signature',
+  'make', 'model', 'focal', 'aperture', 'shutter', 'iso',
+] as const;
+
+export const CAPTION_SLOTS: CaptionSlot[] = ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'];
+
+// Line box height relative to the font size
+const LINE_HEIGHT = 1.5;
+// Share of the band height text may occupy
+const BAND_FILL = 0.9;
+// Narrow bands: the gap between slots stays below this share of the width, so a side slot
+// always keeps at least MIN_SIDE of it next to a full-width centre block
+const MAX_GAP = 0.05;
+const MIN_SIDE = 0.2;
+
+// Horizontal run of border the captions of one edge are laid out in
+export interface CaptionBand {
+  centerY: number;
+  maxHeight: number;
+  left: number; // left slot anchor
+  right: number; // right slot anchor
+}
+
+export interface PlacedCaption {
+  text: string;
+  x: number;
+  y: number; // vertical centre, for textBaseline 'middle'
+  align: CanvasTextAlign;
+  font: string;
+  tracking: number; // px
+  opacity: number;
+}
+
+// A non-text block (the brand logo) laid out like a caption line
+export interface CaptionMark {
+  slot: CaptionSlot;
+  size: number; // multiple of the base font size
+  measure: (height: number) => number; // width at a given height
+}
+
+export interface PlacedMark {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const formatCaption = (template: string, meta: Metadata): string =>
+  template
+    .replace(/\{(\w+)\}/g, (match, key: string) =>
+      (CAPTION_TOKENS as readonly string[]).includes(key) ? String(meta[key as keyof Metadata] ?? '') : match)
+    .trim();
+
+const usesSignature = (template: string) => template.includes('{signature}');
+const isShown = (line: CaptionLine, showSignature: boolean) =>
+  showSignature ? !line.signatureFallback : !usesSignature(line.template);
+
+interface SizedLine {
+  line: CaptionLine | null; // null for the mark
+  text: string;
+  fontSize: number;
+  width: number;
+}
+
+const fontFor = (line: CaptionLine, style: FrameStyle, size: number) => {
+  const family = line.font === 'title' ? style.titleFont : line.font === 'script' ? style.scriptFont : style.bodyFont;
+  return `${line.italic ? 'italic ' : ''}${line.weight} ${size}px ${family}`;
+};
+
+const measure = (ctx: RenderContext, line: CaptionLine, text: string, style: FrameStyle, fontSize: number) => {
+  ctx.font = fontFor(line, style, fontSize);
+  ctx.letterSpacing = `${line.tracking * fontSize}px`;
+  return ctx.measureText(text).width;
+};
+
+/**
+ * Positions every visible caption line, and the mark on top of its slot.
+ * Lines are scaled down per slot when they are wider than their share of
+ * `width` or taller than the band.
+ * Leaves the context's font and letter spacing changed.
+ */
+export const layoutCaptions = (
+  ctx: RenderContext,
+  style: FrameStyle,
+  meta: Metadata,
+  options: {
+    baseFontSize: number;
+    centerX: number;
+    width: number;
+    showSignature: boolean;
+    bands: Record<'top' | 'bottom', CaptionBand>;
+    mark?: CaptionMark;
+  },
+): { captions: PlacedCaption[]; mark: PlacedMark | null } => {
+  const { baseFontSize, centerX, width, showSignature, bands, mark } = options;
+  const gap = Math.min(baseFontSize, width * MAX_GAP);
+  const placed: PlacedCaption[] = [];
+  let placedMark: PlacedMark | null = null;
+
+  (['top', 'bottom'] as const).forEach(edge => {
+    const band = bands[edge];
+    if (band.maxHeight <= 0) return;
+
+    const slotLines = (position: 'left' | 'center' | 'right'): SizedLine[] => {
+      const slot = `${edge}-${position}`;
+      const lines: SizedLine[] = style.captions
+        .filter(line => line.slot === slot && isShown(line, showSignature))
+        .map(line => {
+          const raw = formatCaption(line.template, meta);
+          const text = line.uppercase ? raw.toUpperCase() : raw;
+          const fontSize = line.size * baseFontSize;
+          return { line, text, fontSize, width: text ? measure(ctx, line, text, style, fontSize) : 0 };
+        })
+        .filter(sized => sized.text);
+      if (mark?.slot === slot) {
+        const fontSize = mark.size * baseFontSize;
+        lines.unshift({ line: null, text: '', fontSize, width: mark.measure(fontSize) });
+      }
+      return lines;
+    };
+
+    const left = slotLines('left');
+    const center = slotLines('center');
+    const right = slotLines('right');
+
+    const fit = (lines: SizedLine[], maxWidth: number) => {
+      const widest = Math.max(...lines.map(l => l.width));
+      const height = lines.reduce((sum, l) => sum + l.fontSize * LINE_HEIGHT, 0);
+      return Math.min(1, maxWidth / widest, (band.maxHeight * BAND_FILL) / height);
+    };
+
+    const place = (lines: SizedLine[], maxWidth: number, x: number, align: CanvasTextAlign) => {
+      if (lines.length === 0) return 0;
+      const scale = Math.max(0, fit(lines, maxWidth));
+      const height = lines.reduce((sum, l) => sum + l.fontSize * scale * LINE_HEIGHT, 0);
+      let y = band.centerY - height / 2;
+      lines.forEach(({ line, text, fontSize, width: lineWidth }) => {
+        const size = fontSize * scale;
+        if (!line) {
+          const markWidth = lineWidth * scale;
+          const markX = align === 'left' ? x : align === 'right' ? x - markWidth : x - markWidth / 2;
+          placedMark = { x: markX, y: y + (size * (LINE_HEIGHT - 1)) / 2, width: markWidth, height: size };
+          y += size * LINE_HEIGHT;
+          return;
+        }
+        placed.push({
+          text, x, y: y + (size * LINE_HEIGHT) / 2, align,
+          font: fontFor(line, style, size),
+          tracking: line.tracking * size,
+          opacity: line.opacity,
+        });
+        y += size * LINE_HEIGHT;
+      });
+      return Math.max(...lines.map(l => l.width)) * scale;
+    };
+
+    const sides = (left.length ? 1 : 0) + (right.length ? 1 : 0);
+    // The centre block gets the middle half when it shares the edge; the sides take what is left
+    const centerWidth = place(center, sides ? width / 2 : width, centerX, 'center');
+    const sideWidth = Math.max(
+      width * MIN_SIDE,
+      center.length ? (width - centerWidth) / 2 - gap : sides > 1 ? width / 2 - gap : width,
+    );
+    place(left, sideWidth, band.left, 'left');
+    place(right, sideWidth, band.right, 'right');
+  });
+
+  return { captions: placed, mark: placedMark };
+};
@@ -0,0 +1,49 @@
+import { Color } from '../types';
+
+/**
+ * Colour helpers shared by the renderer and the style editor.
+ */
+
+export const parseHex = (hex: string): Color | null => {
+  const m = hex.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!m) return null;
+  const value = m[1].length === 3 ? m[1].split('').map(c => c + c).join('') : m[1];
+  const n = parseInt(value, 16);
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+};
+
+export const toHex = ({ r, g, b }: Color): string =>
+  '#' + [r, g, b].map(v => Math.round(Math.max(0, Math.min(255, v))).toString(16).padStart(2, '0')).join('');
+
+// WCAG relative luminance, 0 (black) .. 1 (white)
+export const relativeLuminance = ({ r, g, b }: Color): number => {
+  const lin = (v: number) => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * lin(r) + 0.7152 * lin(g) + 0.0722 * lin(b);
+};
+
+export const isDark = (hex: string): boolean => {
+  const color = parseHex(hex);
+  return color ? relativeLuminance(color) < 0.2 : false;
+};
+
+// WCAG contrast ratio, 1 (none) .. 21 (black on white)
+export const contrastRatio = (a: Color, b: Color): number => {
+  const la = relativeLuminance(a), lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+};
+
+const LIGHT_TEXT: Color = { r: 245, g: 245, b: 245 };
+const DARK_TEXT: Color = { r: 28, g: 28, b: 28 };
+
+// Near-white or near-black, whichever reads better on the given background
+export const readableTextColor = (bg: Color): string =>
+  toHex(contrastRatio(bg, LIGHT_TEXT) >= contrastRatio(bg, DARK_TEXT) ? LIGHT_TEXT : DARK_TEXT);
+
+export const mixColors = (a: Color, b: Color, t: number): Color => ({
+  r: a.r + (b.r - a.r) * t,
+  g: a.g + (b.g - a.g) * t,
+  b: a.b + (b.b - a.b) * t,
+});
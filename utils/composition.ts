@@ -0,0 +1,135 @@
+import { CompositionLayout, CompositionSettings, CropSettings, RenderCanvas } from '../types';
+import { CROP_ASPECTS, cropSource } from './crop';
+import { createCanvas, getContext, Rect } from './renderer';
+
+/**
+ * Compositions: several photos arranged on one sheet, which is then framed like a single photo.
+ * The arranged sheet becomes the frame's source, so border, shadow, captions and palette all
+ * treat the set as one picture.
+ */
+
+export const MIN_COMPOSITION = 2;
+export const MAX_COMPOSITION = 9;
+// Long edge cap when the photos themselves would allow more
+export const MAX_COMPOSITION_EDGE = 8000;
+
+export const COMPOSITION_LAYOUTS: Record<CompositionLayout, { max: number }> = {
+  'side-by-side': { max: MAX_COMPOSITION },
+  stacked: { max: MAX_COMPOSITION },
+  'grid-2': { max: 4 },
+  'grid-3': { max: 9 },
+  feature: { max: 3 },
+};
+
+export const DEFAULT_COMPOSITION: CompositionSettings = {
+  layout: 'side-by-side',
+  gutter: 1.5,
+  aspect: 'original',
+  fit: 'crop',
+};
+
+// One photo of the composition; width/height are its size after its own crop
+export interface CompositionCell {
+  source: CanvasImageSource;
+  crop?: CropSettings;
+  width: number;
+  height: number;
+}
+
+interface Arrangement {
+  cells: Rect[];
+  width: number;
+  height: number;
+}
+
+// Cells in units where a regular cell is `aspect` wide and 1 tall
+const arrange = (layout: CompositionLayout, count: number, aspect: number, gap: number): Arrangement => {
+  const a = aspect;
+  if (layout === 'feature') {
+    // One large cell on the left as tall as the two small ones stacked beside it
+    const big = 2 + gap;
+    const cells = [
+      { x: 0, y: 0, width: a * big, height: big },
+      { x: a * big + gap, y: 0, width: a, height: 1 },
+      { x: a * big + gap, y: 1 + gap, width: a, height: 1 },
+    ].slice(0, count);
+    return { cells, width: a * big + gap + a, height: big };
+  }
+
+  const cols = layout === 'side-by-side' ? count : layout === 'stacked' ? 1 : layout === 'grid-2' ? 2 : 3;
+  const rows = Math.ceil(count / cols);
+  const cells = Array.from({ length: count }, (_, i) => {
+    const row = Math.floor(i / cols), col = i % cols;
+    // A short last row is centred
+    const inRow = Math.min(cols, count - row * cols);
+    const shift = ((cols - inRow) * (a + gap)) / 2;
+    return { x: shift + col * (a + gap), y: row * (1 + gap), width: a, height: 1 };
+  });
+  return { cells, width: cols * a + (cols - 1) * gap, height: rows + (rows - 1) * gap };
+};
+
+const resolveArrangement = (cells: CompositionCell[], settings: CompositionSettings) => {
+  const count = Math.min(cells.length, COMPOSITION_LAYOUTS[settings.layout].max);
+  const first = cells[0];
+  const aspect = CROP_ASPECTS[settings.aspect] ?? (first ? first.width / first.height : 1);
+  // The gutter is a share of the long edge, measured on the gapless arrangement
+  const plain = arrange(settings.layout, count, aspect, 0);
+  const gap = (settings.gutter / 100) * Math.max(plain.width, plain.height);
+  return arrange(settings.layout, count, aspect, gap);
+};
+
+// How a photo sits in its cell: scale and the drawn size, centred on the cell
+const placePhoto = (cell: Rect, photo: CompositionCell, fit: CompositionSettings['fit']) => {
+  const pick = fit === 'crop' ? Math.max : Math.min;
+  const scale = pick(cell.width / photo.width, cell.height / photo.height);
+  return { scale, width: photo.width * scale, height: photo.height * scale };
+};
+
+/**
+ * Pixel size of the composition. Without `maxEdge` it is as large as the photos allow
+ * without enlarging any of them, up to MAX_COMPOSITION_EDGE.
+ */
+export const getCompositionSize = (cells: CompositionCell[], settings: CompositionSettings, maxEdge = 0) => {
+  const { cells: rects, width, height } = resolveArrangement(cells, settings);
+  let unit = Math.min(...rects.map((rect, i) => 1 / placePhoto(rect, cells[i], settings.fit).scale));
+  unit = Math.min(unit, MAX_COMPOSITION_EDGE / Math.max(width, height));
+  if (maxEdge > 0) unit = Math.min(unit, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * unit)), height: Math.max(1, Math.round(height * unit)) };
+};
+
+/**
+ * Draws the photos into their cells at `width` x `height`. Gutters and the space around
+ * contained photos are filled with `fill`, normally the frame's border colour.
+ */
+export const renderComposition = (
+  cells: CompositionCell[],
+  settings: CompositionSettings,
+  width: number,
+  height: number,
+  fill: string,
+): RenderCanvas => {
+  const canvas = createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  const ctx = getContext(canvas);
+  if (!ctx) return canvas;
+  ctx.fillStyle = fill;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  const arrangement = resolveArrangement(cells, settings);
+  const k = canvas.width / arrangement.width;
+  arrangement.cells.forEach((unitRect, i) => {
+    const rect = { x: unitRect.x * k, y: unitRect.y * k, width: unitRect.width * k, height: unitRect.height * k };
+    const photo = cells[i];
+    const { width: w, height: h } = placePhoto(rect, photo, settings.fit);
+    const x = rect.x + (rect.width - w) / 2, y = rect.y + (rect.height - h) / 2;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    ctx.clip();
+    if (photo.crop) ctx.drawImage(cropSource(photo.source, photo.crop, w, h), x, y, w, h);
+    else ctx.drawImage(photo.source, x, y, w, h);
+    ctx.restore();
+  });
+  return canvas;
+};
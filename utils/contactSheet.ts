@@ -0,0 +1,119 @@
+import { FilmSettings, FrameImage, RenderCanvas, RenderSettings } from '../types';
+import { createCanvas, getContext, renderFrame } from './renderer';
+import { drawFilmStrip, FILM, REBATE } from './filmStrip';
+
+/**
+ * Contact sheet: several photos laid out as consecutive 35mm strips, the way a roll is cut
+ * and printed in the darkroom. Frame numbers run on from strip to strip.
+ */
+
+export const CONTACT_STRIP_FRAMES = [4, 5, 6];
+// Resolution of the sheet when the export size does not limit it
+export const CONTACT_PX_PER_MM = 20;
+
+// Sheet layout in mm
+const SHEET_MARGIN = 12;
+const STRIP_GAP = 6;
+// Printed like a darkroom sheet: black film on white paper unless the film is tinted
+const PAPER = '#f4f2ee';
+const FILM_BLACK = '#111111';
+// Long side of an image area
+const IMAGE_LONG = FILM.frame - FILM.gap;
+
+export interface ContactFrame {
+  frame: FrameImage; // full-size photo; the sheet scales it to the slot
+  settings: RenderSettings;
+}
+
+// Sheet size in mm for `count` frames
+export const getContactSheetSize = (count: number, perStrip: number) => {
+  const strips = Math.max(1, Math.ceil(count / perStrip));
+  return {
+    width: SHEET_MARGIN * 2 + Math.min(count, perStrip) * FILM.frame,
+    height: SHEET_MARGIN * 2 + strips * FILM.width + (strips - 1) * STRIP_GAP,
+  };
+};
+
+// Only the photo: the frame's border, captions and marks stay off the sheet.
+// A plain gallery layout without its shadow, so the photo keeps its grain.
+const photoOnly = (settings: RenderSettings): RenderSettings => ({
+  ...settings,
+  style: { ...settings.style, layout: 'gallery' },
+  optics: { ...settings.optics, shadow: false },
+  border: {
+    ...settings.border,
+    mode: 'simple',
+    scale: 0,
+    mat: { ...settings.border.mat, enabled: false, keyline: 0 },
+    photoRadius: 0,
+    canvasRadius: 0,
+  },
+  markings: { ...settings.markings, signature: false, palette: false },
+  logo: { ...settings.logo, enabled: false },
+  background: { ...settings.background, mode: 'solid' },
+  metadata: { ...settings.metadata, showMetadata: false },
+});
+
+/**
+ * Lays out the sheet for `count` frames: paper and film strips with their edge print.
+ * Returns a function that prints one photo into its slot and tells whether it could, so callers
+ * can spread the frames over time, report progress and stop early.
+ */
+export const createContactSheet = (
+  canvas: RenderCanvas,
+  count: number,
+  film: FilmSettings,
+  perStrip: number,
+  pxPerMm: number,
+) => {
+  const ctx = getContext(canvas);
+  const mm = pxPerMm;
+  const size = getContactSheetSize(count, perStrip);
+  canvas.width = Math.round(size.width * mm);
+  canvas.height = Math.round(size.height * mm);
+  if (!ctx) return () => false;
+  ctx.fillStyle = PAPER;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const slotW = IMAGE_LONG * mm, slotH = FILM.image * mm;
+  const x = SHEET_MARGIN * mm;
+  const edgeOf = (strip: number) => (SHEET_MARGIN + strip * (FILM.width + STRIP_GAP)) * mm;
+  const startOf = (slot: number) => x + (slot * FILM.frame + FILM.gap / 2) * mm;
+  for (let first = 0; first < count; first += perStrip) {
+    const run = Math.min(perStrip, count - first);
+    drawFilmStrip(ctx, {
+      x,
+      length: run * FILM.frame * mm,
+      edge: edgeOf(first / perStrip),
+      mm,
+      frames: Array.from({ length: run }, (_, i) => ({ start: startOf(i), number: film.frame + first + i })),
+    }, film, FILM_BLACK);
+  }
+
+  return (index: number, { frame, settings }: ContactFrame): boolean => {
+    const edge = edgeOf(Math.floor(index / perStrip));
+    const start = startOf(index % perStrip);
+    // Portrait photos were shot with the camera turned, so they lie sideways on the film
+    const portrait = frame.height > frame.width;
+    const long = Math.max(frame.width, frame.height), short = Math.min(frame.width, frame.height);
+    const scale = Math.max(slotW / long, slotH / short);
+    const photo = createCanvas(1, 1);
+    const drawn = renderFrame(photo, {
+      ...frame,
+      width: Math.max(1, Math.round(frame.width * scale)),
+      height: Math.max(1, Math.round(frame.height * scale)),
+      scale: scale * (frame.scale ?? 1),
+    }, photoOnly(settings));
+    if (!drawn) return false;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(start, edge + REBATE * mm, slotW, slotH);
+    ctx.clip();
+    ctx.translate(start + slotW / 2, edge + (REBATE + FILM.image / 2) * mm);
+    if (portrait) ctx.rotate(-Math.PI / 2);
+    ctx.drawImage(photo, -photo.width / 2, -photo.height / 2);
+    ctx.restore();
+    return true;
+  };
+};
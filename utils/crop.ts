@@ -0,0 +1,102 @@
+import { CropAspect, CropSettings } from '../types';
+import { createCanvas, getContext } from './renderer';
+
+/**
+ * Non-destructive crop and rotation.
+ * A crop is a set of parameters kept on the queue item; pixels are produced on demand at
+ * whatever size is being rendered. Camera orientation is already applied by the browser
+ * when the photo is decoded, so quarter turns here are the user's own.
+ */
+
+export const CROP_ASPECTS: Record<CropAspect, number | null> = {
+  original: null,
+  '3:2': 3 / 2,
+  '4:5': 4 / 5,
+  '1:1': 1,
+  '16:9': 16 / 9,
+  '2.39:1': 2.39,
+};
+
+export const DEFAULT_CROP: CropSettings = {
+  aspect: 'original',
+  swap: false,
+  angle: 0,
+  turns: 0,
+  flipH: false,
+  flipV: false,
+  zoom: 1,
+  panX: 0,
+  panY: 0,
+};
+
+// Decoded images, bitmaps and canvases all report their pixel size as width/height
+export const getSourceSize = (source: CanvasImageSource) => {
+  const s = source as { width: number; height: number; naturalWidth?: number; naturalHeight?: number };
+  return { width: s.naturalWidth || s.width, height: s.naturalHeight || s.height };
+};
+
+interface CropGeometry {
+  width: number; // crop size in source pixels
+  height: number;
+  offsetX: number; // crop centre relative to the photo centre, along the crop's own axes
+  offsetY: number;
+}
+
+const cropGeometry = (sourceW: number, sourceH: number, crop: CropSettings): CropGeometry => {
+  const turned = crop.turns % 2 === 1;
+  const w = turned ? sourceH : sourceW, h = turned ? sourceW : sourceH;
+  const preset = CROP_ASPECTS[crop.aspect];
+  // Presets follow the photo's orientation: 4:5 on a landscape photo is 5:4
+  let aspect = preset === null ? w / h : (w >= h) === (preset >= 1) ? preset : 1 / preset;
+  if (crop.swap) aspect = 1 / aspect;
+
+  // Largest centred rectangle of that aspect inside the straightened photo
+  const theta = (crop.angle * Math.PI) / 180;
+  const c = Math.abs(Math.cos(theta)), s = Math.abs(Math.sin(theta));
+  const fit = Math.min(w / (c + s / aspect), h / (s + c / aspect));
+  const width = fit / Math.max(1, crop.zoom);
+  const height = width / aspect;
+
+  // Room left on each axis, then scaled back together so the corners stay on the photo
+  const slackW = Math.max(0, w - width * c - height * s);
+  const slackH = Math.max(0, h - width * s - height * c);
+  const room = (slack: number, need: number) => (need > 0 ? slack / need : Infinity);
+  let offsetX = crop.panX * Math.min(room(slackW, 2 * c), room(slackH, 2 * s));
+  let offsetY = crop.panY * Math.min(room(slackW, 2 * s), room(slackH, 2 * c));
+  const ax = Math.abs(offsetX), ay = Math.abs(offsetY);
+  const f = Math.min(1, room(slackW, 2 * (ax * c + ay * s)), room(slackH, 2 * (ax * s + ay * c)));
+  offsetX *= f;
+  offsetY *= f;
+  return { width, height, offsetX, offsetY };
+};
+
+// Pixel size of the cropped photo at the source's resolution
+export const getCroppedSize = (sourceW: number, sourceH: number, crop?: CropSettings) => {
+  if (!crop) return { width: sourceW, height: sourceH };
+  const { width, height } = cropGeometry(sourceW, sourceH, crop);
+  return { width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height)) };
+};
+
+/**
+ * The cropped, rotated and flipped photo drawn at `width` x `height`.
+ * The crop is resolved against the source's own size, so proxies and originals agree.
+ */
+export const cropSource = (source: CanvasImageSource, crop: CropSettings, width: number, height: number) => {
+  const { width: sourceW, height: sourceH } = getSourceSize(source);
+  const geometry = cropGeometry(sourceW, sourceH, crop);
+  const canvas = createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  const ctx = getContext(canvas);
+  if (!ctx) return source;
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.scale(canvas.width / geometry.width, canvas.height / geometry.height);
+  ctx.translate(-geometry.offsetX, -geometry.offsetY);
+  ctx.rotate((crop.angle * Math.PI) / 180);
+  // Flips act on the photo as it appears after the quarter turns
+  ctx.scale(crop.flipH ? -1 : 1, crop.flipV ? -1 : 1);
+  ctx.rotate((crop.turns * Math.PI) / 2);
+  ctx.drawImage(source, -sourceW / 2, -sourceH / 2, sourceW, sourceH);
+  return canvas;
+};
@@ -0,0 +1,214 @@
+/**
+ * Minimal EXIF reader for JPEG and TIFF sources.
+ * Only the tags the frame actually prints are decoded.
+ */
+
+export interface ExifData {
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  fNumber?: number;
+  exposureTime?: number;
+  iso?: number;
+  focalLength?: number;
+  dateTimeOriginal?: string;
+  orientation?: number;
+}
+
+// Fields of the Markings block that can be derived from EXIF
+export interface ExifMarkings {
+  camera?: string;
+  lens?: string;
+  settings?: string;
+  date?: string;
+  quartzDate?: string;
+  make?: string;
+  model?: string;
+  focal?: string;
+  aperture?: string;
+  shutter?: string;
+  iso?: string;
+}
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  exifPointer: 0x8769,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+};
+
+// Byte size of each TIFF field type (index = type id)
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+type TagValue = string | number | undefined;
+
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  const base = tiffStart + ifdOffset;
+  if (base + 2 > view.byteLength) return tags;
+
+  const count = view.getUint16(base, little);
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const num = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] || 0) * num;
+    const valueOffset = size > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size > view.byteLength) continue;
+
+    switch (type) {
+      case 2: { // ASCII
+        let s = '';
+        for (let j = 0; j < num; j++) {
+          const c = view.getUint8(valueOffset + j);
+          if (c === 0) break;
+          s += String.fromCharCode(c);
+        }
+        tags.set(tag, s.trim());
+        break;
+      }
+      case 3: // SHORT
+        tags.set(tag, view.getUint16(valueOffset, little));
+        break;
+      case 4: // LONG
+        tags.set(tag, view.getUint32(valueOffset, little));
+        break;
+      case 5: // RATIONAL
+      case 10: { // SRATIONAL
+        const signed = type === 10;
+        const n = signed ? view.getInt32(valueOffset, little) : view.getUint32(valueOffset, little);
+        const d = signed ? view.getInt32(valueOffset + 4, little) : view.getUint32(valueOffset + 4, little);
+        tags.set(tag, d ? n / d : undefined);
+        break;
+      }
+    }
+  }
+  return tags;
+};
+
+const readTiff = (view: DataView, tiffStart: number): ExifData | null => {
+  if (tiffStart + 8 > view.byteLength) return null;
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+  const little = byteOrder === 0x4949;
+  if (view.getUint16(tiffStart + 2, little) !== 42) return null;
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+  const exifPointer = ifd0.get(TAGS.exifPointer);
+  const exifIfd = typeof exifPointer === 'number'
+    ? readIfd(view, tiffStart, exifPointer, little)
+    : new Map<number, TagValue>();
+
+  const str = (v: TagValue) => (typeof v === 'string' && v ? v : undefined);
+  const num = (v: TagValue) => (typeof v === 'number' && isFinite(v) ? v : undefined);
+
+  return {
+    make: str(ifd0.get(TAGS.make)),
+    model: str(ifd0.get(TAGS.model)),
+    orientation: num(ifd0.get(TAGS.orientation)),
+    lensModel: str(exifIfd.get(TAGS.lensModel)),
+    fNumber: num(exifIfd.get(TAGS.fNumber)),
+    exposureTime: num(exifIfd.get(TAGS.exposureTime)),
+    iso: num(exifIfd.get(TAGS.iso)),
+    focalLength: num(exifIfd.get(TAGS.focalLength)),
+    dateTimeOriginal: str(exifIfd.get(TAGS.dateTimeOriginal)) || str(ifd0.get(TAGS.dateTime)),
+  };
+};
+
+/**
+ * Parses EXIF from a JPEG (APP1 segment) or a bare TIFF buffer.
+ * Returns null when the file carries no readable EXIF block.
+ */
+export const readExif = (buffer: ArrayBuffer): ExifData | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4) return null;
+
+  // TIFF: the whole file is the EXIF container
+  const head = view.getUint16(0);
+  if (head === 0x4949 || head === 0x4d4d) return readTiff(view, 0);
+
+  // JPEG: walk the marker segments until APP1 "Exif\0\0"
+  if (head !== 0xffd8) return null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    // Start of scan / end of image: no more metadata after this point
+    if (marker === 0xffda || marker === 0xffd9) return null;
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return readTiff(view, offset + 10);
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// "Canon" + "Canon EOS R5" -> "Canon EOS R5"; "FUJIFILM" + "X-T4" -> "FUJIFILM X-T4"
+const formatCamera = (make?: string, model?: string): string | undefined => {
+  if (!model) return make;
+  if (!make) return model;
+  const brand = make.split(/\s+/)[0];
+  return model.toLowerCase().includes(brand.toLowerCase()) ? model : `${brand} ${model}`;
+};
+
+export const formatShutter = (seconds: number): string => {
+  if (seconds >= 1) return `${Math.round(seconds * 10) / 10}`;
+  return `1/${Math.round(1 / seconds)}`;
+};
+
+/**
+ * Maps raw EXIF to the strings printed in the Markings block.
+ * Only fields the camera actually recorded are returned.
+ */
+export const exifToMarkings = (exif: ExifData): ExifMarkings => {
+  const result: ExifMarkings = {};
+
+  const camera = formatCamera(exif.make, exif.model);
+  if (camera) result.camera = camera;
+  if (exif.make) result.make = exif.make;
+  if (exif.model) result.model = exif.model;
+  if (exif.lensModel) result.lens = exif.lensModel;
+
+  // Bare values for caption templates, combined into one line for {settings}
+  if (exif.focalLength) result.focal = `${Math.round(exif.focalLength)}`;
+  if (exif.fNumber) result.aperture = `${Math.round(exif.fNumber * 10) / 10}`;
+  if (exif.exposureTime) result.shutter = formatShutter(exif.exposureTime);
+  if (exif.iso) result.iso = `${exif.iso}`;
+
+  const parts: string[] = [];
+  if (result.focal) parts.push(`${result.focal}mm`);
+  if (result.aperture) parts.push(`f/${result.aperture}`);
+  if (result.shutter) parts.push(`${result.shutter}s`);
+  if (result.iso) parts.push(`ISO${result.iso}`);
+  if (parts.length) result.settings = parts.join(' ');
+
+  // "YYYY:MM:DD HH:MM:SS"
+  const match = exif.dateTimeOriginal?.match(/^(\d{4}):(\d{2}):(\d{2})/);
+  if (match) {
+    const [, y, mo, d] = match;
+    result.date = `${y}.${mo}.${d}`;
+    result.quartzDate = `'${y.slice(2)} ${mo} ${d}`;
+  }
+  return result;
+};
+
+// Capture time as a local date; EXIF keeps no time zone, so the clock reading is taken as is
+export const parseExifDate = (value: string | undefined): Date | null => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})(?: (\d{2}):(\d{2}))?/);
+  // Cameras without a set clock write zeros
+  if (!match || Number(match[1]) === 0) return null;
+  const [, y, mo, d, h = '0', mi = '0'] = match;
+  const date = new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
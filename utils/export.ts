@@ -0,0 +1,76 @@
+import { ExportFormat, ExportSettings } from '../types';
+
+/**
+ * Export helpers: encoding a rendered canvas and handing files to the browser.
+ */
+
+export const EXPORT_FORMATS: Record<ExportFormat, { mime: string; ext: string; lossy: boolean }> = {
+  jpeg: { mime: 'image/jpeg', ext: 'jpg', lossy: true },
+  png: { mime: 'image/png', ext: 'png', lossy: false },
+  webp: { mime: 'image/webp', ext: 'webp', lossy: true },
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpeg',
+  quality: 0.95,
+  maxEdge: 0,
+  filenameTemplate: 'LUMINA_{name}',
+  keepMetadata: false,
+  stripLocation: true,
+  contactFrames: 6,
+};
+
+export interface FilenameTokens {
+  name: string;
+  index: number;
+  preset: string;
+  camera: string;
+  date: string;
+}
+
+const stripExtension = (filename: string) => filename.replace(/\.[^.]+$/, '');
+
+// Characters that are invalid in file names on at least one common OS
+const sanitize = (value: string) => value.replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, '_');
+
+export const formatFilename = (template: string, tokens: FilenameTokens, format: ExportFormat): string => {
+  const values: Record<string, string> = {
+    name: stripExtension(tokens.name),
+    index: String(tokens.index).padStart(2, '0'),
+    preset: tokens.preset,
+    camera: tokens.camera,
+    date: tokens.date,
+  };
+  const base = sanitize(template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)).trim();
+  return `${base || 'LUMINA'}.${EXPORT_FORMATS[format].ext}`;
+};
+
+// "a.jpg", "a.jpg" -> "a.jpg", "a_2.jpg" (ZIP entries must not collide)
+export const uniqueFilename = (filename: string, taken: Set<string>): string => {
+  let candidate = filename;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = filename.replace(/(\.[^.]+)?$/, `_${n}$1`);
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('Canvas could not be encoded'));
+    }, type, quality);
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const wait = (ms: number) => new Promise(res => setTimeout(res, ms));
@@ -0,0 +1,189 @@
+import { FilmSettings, Margins, RenderContext } from '../types';
+import { isDark, mixColors, parseHex, toHex } from './color';
+import { hashSeed } from './random';
+import type { Rect } from './renderer';
+
+/**
+ * 35mm film strip: rebate, perforations and edge print, drawn to true proportions.
+ * Everything is measured in millimetres and scaled from the 24 mm short side of the photo,
+ * so the strip looks the same on a preview proxy and on the export.
+ */
+
+// 135 film dimensions in mm (KS perforations)
+export const FILM = {
+  width: 35,
+  image: 24, // short side of the image area
+  frame: 38, // frame pitch: 36 mm image + 2 mm gap, 8 perforations
+  gap: 2,
+  perfOuter: 2.26, // film edge to the outer edge of a perforation
+  perfInner: 5.05, // film edge to the inner edge of a perforation
+  perfLength: 1.98, // perforation size along the strip
+  perfRadius: 0.5,
+};
+
+// Film edge to image edge
+export const REBATE = (FILM.width - FILM.image) / 2;
+// Cap height of the edge print
+const PRINT_SIZE = 1.25;
+// One DX barcode bit along the strip
+const DX_BIT = 0.42;
+
+export const FILM_STOCKS = [
+  'KODAK PORTRA 400',
+  'KODAK PORTRA 160',
+  'KODAK GOLD 200',
+  'KODAK EKTAR 100',
+  'KODAK TRI-X 400',
+  'FUJIFILM SUPERIA 400',
+  'FUJIFILM PRO 400H',
+  'ILFORD HP5 PLUS',
+];
+
+// Unexposed colour negative base
+const ORANGE_MASK = '#c46a2b';
+// Scanner light showing through the perforations
+const LIGHT_THROUGH = '#e5e5e5';
+// Edge print on a dark (inverted) rebate
+const PRINT_GLOW = '#e8a33d';
+
+export const getRebateColor = (film: FilmSettings, bg: string) =>
+  film.rebate === 'orange' ? ORANGE_MASK : film.rebate === 'custom' ? film.rebateColor : bg;
+
+// Edge print is exposed onto the film, so it reads light on a dark rebate and dark on a light one
+const getPrintColor = (rebate: string) => {
+  const base = parseHex(rebate);
+  if (!base || isDark(rebate)) return PRINT_GLOW;
+  return toHex(mixColors(base, { r: 0, g: 0, b: 0 }, 0.7));
+};
+
+// Pixels per millimetre for a photo whose short side is the 24 mm image height
+export const getFilmScale = (width: number, height: number) => Math.min(width, height) / FILM.image;
+
+/**
+ * Margins of the negative layout: the film's rebate across the strip and half a frame gap
+ * along it, each plus `extra` (scanner background past the film edge, more film along it).
+ */
+export const getStripMargins = (width: number, height: number, extra: number): Margins => {
+  const mm = getFilmScale(width, height);
+  const across = REBATE * mm + extra;
+  const along = (FILM.gap / 2) * mm + extra;
+  return width >= height
+    ? { top: across, bottom: across, left: along, right: along }
+    : { top: along, bottom: along, left: across, right: across };
+};
+
+// A run of film in strip coordinates: x along the strip, y across it
+export interface FilmStrip {
+  x: number;
+  length: number;
+  edge: number; // y of the film's first edge
+  mm: number;
+  frames: Array<{ start: number; number: number }>; // x where each image area starts
+}
+
+// DX edge code: a clock track over a data track carrying product, generation and frame number.
+// The product number is derived from the stock name, not looked up in a registry.
+const dxBits = (stock: string, frame: number) => {
+  const id = hashSeed(stock);
+  const field = (value: number, bits: number) => Array.from({ length: bits }, (_, i) => (value >> (bits - 1 - i)) & 1);
+  const data = [...field(id % 128, 7), 0, ...field((id >> 8) % 16, 4), ...field(frame % 64, 6)];
+  const parity = data.reduce((sum, bit) => sum + bit, 0) % 2;
+  return [1, 0, 1, ...data, parity, 0];
+};
+
+const drawDxCode = (ctx: RenderContext, x: number, y: number, mm: number, stock: string, frame: number) => {
+  const bits = dxBits(stock, frame);
+  const bit = DX_BIT * mm, track = 0.55 * mm;
+  bits.forEach((on, i) => {
+    ctx.fillRect(x + i * bit, y, bit * 0.55, track);
+    if (on) ctx.fillRect(x + i * bit, y + track * 1.4, bit * 0.8, track);
+  });
+};
+
+/**
+ * Draws the film base, perforations and edge print of a strip. Photos go on top afterwards.
+ * `bg` stands in for the rebate colour when the film settings follow the frame style.
+ */
+export const drawFilmStrip = (ctx: RenderContext, strip: FilmStrip, film: FilmSettings, bg: string) => {
+  const { x, length, edge, mm } = strip;
+  const rebate = getRebateColor(film, bg);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, edge, length, FILM.width * mm);
+  ctx.clip();
+  ctx.fillStyle = rebate;
+  ctx.fillRect(x, edge, length, FILM.width * mm);
+
+  // Perforations, phased so each frame sits between the same eight holes
+  const pitch = Math.max(FILM.perfLength * 1.5, film.pitch) * mm;
+  const origin = (strip.frames[0]?.start ?? x) - (FILM.gap / 2) * mm;
+  const perfW = FILM.perfLength * mm, perfH = (FILM.perfInner - FILM.perfOuter) * mm;
+  const rows = [edge + FILM.perfOuter * mm, edge + (FILM.width - FILM.perfInner) * mm];
+  ctx.fillStyle = LIGHT_THROUGH;
+  ctx.beginPath();
+  for (let i = Math.floor((x - origin) / pitch) - 1; origin + i * pitch < x + length + pitch; i++) {
+    const cx = origin + (i + 0.5) * pitch;
+    rows.forEach(y => {
+      if (ctx.roundRect) ctx.roundRect(cx - perfW / 2, y, perfW, perfH, FILM.perfRadius * mm);
+      else ctx.rect(cx - perfW / 2, y, perfW, perfH);
+    });
+  }
+  ctx.fill();
+
+  if (film.edgePrint) {
+    const stock = film.stock.trim().toUpperCase();
+    ctx.fillStyle = getPrintColor(rebate);
+    ctx.font = `bold ${PRINT_SIZE * mm}px "Helvetica Neue", Arial, sans-serif`;
+    ctx.letterSpacing = `${0.12 * mm}px`;
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+    const topY = edge + (FILM.perfOuter / 2) * mm;
+    const bottomY = edge + (FILM.width - FILM.perfOuter / 2) * mm;
+    strip.frames.forEach(({ start, number }) => {
+      if (stock) ctx.fillText(stock, start + 2 * mm, topY);
+      // Frame number under the frame start, the half-frame mark "12A" midway, as Kodak prints them
+      ctx.fillText(`${number}`, start + 1 * mm, bottomY);
+      ctx.fillText(`▸ ${number}A`, start + 18 * mm, bottomY);
+      if (film.dxCode) {
+        drawDxCode(ctx, start + 6 * mm, bottomY - 0.7 * mm, mm, stock, number);
+        drawDxCode(ctx, start + 25 * mm, bottomY - 0.7 * mm, mm, stock, number);
+      }
+    });
+  }
+  ctx.restore();
+};
+
+/**
+ * The negative layout's film around one photo, running along the photo's long edge.
+ * Portrait photos get a vertical strip, drawn in rotated strip coordinates.
+ */
+export const drawNegativeStrip = (
+  ctx: RenderContext,
+  image: Rect,
+  canvasW: number,
+  canvasH: number,
+  film: FilmSettings,
+  bg: string,
+) => {
+  const mm = getFilmScale(image.width, image.height);
+  const frames = (start: number) => [{ start, number: film.frame }];
+  ctx.save();
+  if (image.width >= image.height) {
+    drawFilmStrip(ctx, { x: 0, length: canvasW, edge: image.y - REBATE * mm, mm, frames: frames(image.x) }, film, bg);
+  } else {
+    // Strip x runs down the canvas, strip y from the right edge leftwards
+    ctx.translate(canvasW, 0);
+    ctx.rotate(Math.PI / 2);
+    const edge = canvasW - (image.x + image.width) - REBATE * mm;
+    drawFilmStrip(ctx, { x: 0, length: canvasH, edge, mm, frames: frames(image.y) }, film, bg);
+  }
+  ctx.restore();
+};
+
+// Far film edges of the negative layout's strip, for keeping captions off the film
+export const getStripBounds = (image: Rect) => {
+  const mm = getFilmScale(image.width, image.height);
+  return image.width >= image.height
+    ? { top: image.y - REBATE * mm, bottom: image.y + image.height + REBATE * mm }
+    : null;
+};
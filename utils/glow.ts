@@ -0,0 +1,82 @@
+import { FilterSettings, RenderContext } from '../types';
+import { parseHex } from './color';
+import { createCanvas, getContext, Rect } from './renderer';
+
+/**
+ * Highlight glows: halation and bloom.
+ * Only pixels brighter than the threshold glow. The highlight mask is built at a fixed size
+ * relative to the photo, so previews and exports spread the same light the same way.
+ */
+
+// Long edge of the highlight mask
+const MASK_EDGE = 512;
+// Width of the soft ramp above the threshold
+const KNEE = 0.12;
+
+export const GLOW_FILTERS = ['halation', 'bloom'];
+
+// Tint each glow starts with when it is picked
+export const GLOW_TINTS: Record<string, string> = {
+  halation: '#ff3c14',
+  bloom: '#fff1dc',
+};
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Highlights above the threshold; halation replaces their colour with the tint, bloom keeps it tinted
+const highlightMask = (photo: CanvasImageSource, rect: Rect, filter: FilterSettings) => {
+  const k = Math.min(1, MASK_EDGE / Math.max(rect.width, rect.height));
+  const w = Math.max(1, Math.round(rect.width * k)), h = Math.max(1, Math.round(rect.height * k));
+  const canvas = createCanvas(w, h);
+  const ctx = getContext(canvas);
+  if (!ctx) return null;
+  ctx.drawImage(photo, 0, 0, w, h);
+
+  const tint = parseHex(filter.tint) ?? parseHex(GLOW_TINTS[filter.type])!;
+  const halation = filter.type === 'halation';
+  const image = ctx.getImageData(0, 0, w, h);
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const luma = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+    const keep = smoothstep(filter.threshold, filter.threshold + KNEE, luma);
+    data[i] = (halation ? tint.r : (r * tint.r) / 255) * keep;
+    data[i + 1] = (halation ? tint.g : (g * tint.g) / 255) * keep;
+    data[i + 2] = (halation ? tint.b : (b * tint.b) / 255) * keep;
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  return { canvas, scale: k };
+};
+
+/**
+ * Screens the blurred highlights over the photo. The caller clips to the photo.
+ * `blur` is the glow radius in canvas pixels.
+ */
+export const drawGlow = (ctx: RenderContext, photo: CanvasImageSource, rect: Rect, filter: FilterSettings, blur: number) => {
+  const mask = highlightMask(photo, rect, filter);
+  if (!mask) return;
+
+  // Halation: a wide red glow plus a tighter, brighter rim hugging the highlight
+  const passes = filter.type === 'halation' ? [[1, 1], [0.3, 0.6]] : [[1, 1]];
+  ctx.save();
+  ctx.globalCompositeOperation = 'screen';
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  passes.forEach(([radius, alpha]) => {
+    const spread = Math.max(0.5, blur * radius * mask.scale);
+    // Padded so the glow is not cut off at the photo edge before it is clipped
+    const pad = Math.ceil(spread * 2);
+    const blurred = createCanvas(mask.canvas.width + pad * 2, mask.canvas.height + pad * 2);
+    const bCtx = getContext(blurred);
+    if (!bCtx) return;
+    bCtx.filter = `blur(${spread}px)`;
+    bCtx.drawImage(mask.canvas, pad, pad);
+    ctx.globalAlpha = filter.strength * alpha;
+    ctx.drawImage(blurred, rect.x - pad / mask.scale, rect.y - pad / mask.scale, blurred.width / mask.scale, blurred.height / mask.scale);
+  });
+  ctx.restore();
+};
@@ -0,0 +1,110 @@
+import { GrainSettings, RenderContext } from '../types';
+import { createRandom } from './random';
+
+/**
+ * Film grain.
+ * The grain field is generated from the photo's seed at a resolution tied to the photo,
+ * not to the canvas, so a preview proxy and a full-size export show the same grain
+ * pattern, just sampled at different pixel densities.
+ */
+
+// Grain cells along the photo's long edge at size 1
+const CELLS_PER_EDGE = 2400;
+// Clumps: coarse multiplier that makes rough grain irregular
+const CLUMP_CELLS = 8;
+// Offsets into the same field: luminance grain, then red, green and blue for colour grain
+const CHANNEL_OFFSETS = [[0, 0], [1013, 577], [389, 1361], [1699, 233]];
+
+// Square, so its layout depends on the grain size alone and never on rounding of the output size
+interface GrainField {
+  key: string;
+  size: number;
+  values: Int8Array; // roughly Gaussian, -127..127
+  clumps: Float32Array; // one multiplier per CLUMP_CELLS x CLUMP_CELLS block
+}
+
+// Only the latest field is kept: renders of one photo reuse it, switching photos replaces it
+let cached: GrainField | null = null;
+
+const getField = (seed: number, size: number): GrainField => {
+  const key = `${seed}:${size}`;
+  if (cached?.key === key) return cached;
+
+  const random = createRandom(seed);
+  const values = new Int8Array(size * size);
+  for (let i = 0; i < values.length; i++) {
+    // Sum of three uniforms: cheap bell-shaped distribution
+    values[i] = Math.round(((random() + random() + random()) / 3 - 0.5) * 2 * 127);
+  }
+  const clumpSize = Math.ceil(size / CLUMP_CELLS);
+  const clumps = new Float32Array(clumpSize * clumpSize);
+  for (let i = 0; i < clumps.length; i++) clumps[i] = 0.4 + random() * 1.2;
+
+  cached = { key, size, values, clumps };
+  return cached;
+};
+
+/**
+ * Adds grain to the photo area of the canvas in place.
+ * `rect` is the photo in canvas pixels.
+ */
+export const applyGrain = (
+  ctx: RenderContext,
+  rect: { x: number; y: number; width: number; height: number },
+  grain: GrainSettings,
+  seed: number,
+) => {
+  const x0 = Math.round(rect.x), y0 = Math.round(rect.y);
+  const w = Math.round(rect.width), h = Math.round(rect.height);
+  if (w <= 0 || h <= 0 || grain.amount <= 0) return;
+
+  // Cells along the photo's long edge; `density` maps output pixels onto them
+  const cells = Math.round(CELLS_PER_EDGE / Math.max(0.5, grain.size));
+  const field = getField(seed, cells);
+  const density = cells / Math.max(w, h);
+  const clumpSize = Math.ceil(cells / CLUMP_CELLS);
+
+  // Nearest cell for rough grain, bilinear blend for smooth grain
+  const sample = (fx: number, fy: number, channel: number) => {
+    const [ox, oy] = CHANNEL_OFFSETS[channel];
+    const cx = Math.floor(fx), cy = Math.floor(fy);
+    const at = (x: number, y: number) => field.values[((y + oy) % cells) * cells + ((x + ox) % cells)];
+    const sharp = at(cx, cy);
+    const tx = fx - cx, ty = fy - cy;
+    const top = sharp + (at(cx + 1, cy) - sharp) * tx;
+    const bottom = at(cx, cy + 1) + (at(cx + 1, cy + 1) - at(cx, cy + 1)) * tx;
+    const smooth = top + (bottom - top) * ty;
+    const clump = field.clumps[Math.floor(cy / CLUMP_CELLS) * clumpSize + Math.floor(cx / CLUMP_CELLS)];
+    return (smooth + (sharp * clump - smooth) * grain.roughness) / 127;
+  };
+
+  const image = ctx.getImageData(x0, y0, w, h);
+  const data = image.data;
+  const strength = grain.amount * 64;
+  const chroma = grain.chroma;
+
+  for (let y = 0; y < h; y++) {
+    const fy = y * density;
+    for (let x = 0; x < w; x++) {
+      const fx = x * density;
+      const i = (y * w + x) * 4;
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      const luma = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+      // Strongest in the midtones, fading towards clipped shadows and highlights
+      const weight = strength * (0.25 + 3 * luma * (1 - luma));
+
+      const mono = sample(fx, fy, 0);
+      if (chroma > 0) {
+        data[i] = r + weight * (mono + (sample(fx, fy, 1) - mono) * chroma);
+        data[i + 1] = g + weight * (mono + (sample(fx, fy, 2) - mono) * chroma);
+        data[i + 2] = b + weight * (mono + (sample(fx, fy, 3) - mono) * chroma);
+      } else {
+        const delta = weight * mono;
+        data[i] = r + delta;
+        data[i + 1] = g + delta;
+        data[i + 2] = b + delta;
+      }
+    }
+  }
+  ctx.putImageData(image, x0, y0);
+};
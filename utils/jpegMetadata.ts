@@ -0,0 +1,180 @@
+/**
+ * Carries EXIF (APP1) and ICC profile (APP2) segments from a source JPEG over to an export.
+ * The canvas encoder writes neither, so without this the framed file loses its capture data.
+ */
+
+export interface JpegMetadata {
+  exif: Uint8Array | null; // complete APP1 segment, marker included
+  icc: Uint8Array[]; // ICC profiles may span several APP2 segments
+}
+
+export interface ExifPatch {
+  width: number;
+  height: number;
+  stripLocation: boolean;
+}
+
+const SOI = 0xffd8;
+const SOS = 0xffda;
+const APP0 = 0xffe0;
+const APP1 = 0xffe1;
+const APP2 = 0xffe2;
+
+const EXIF_HEADER = 'Exif\0\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_POINTER = 0x8769;
+const TAG_GPS_POINTER = 0x8825;
+const TAG_PIXEL_X = 0xa002;
+const TAG_PIXEL_Y = 0xa003;
+
+// Byte size of each TIFF field type (index = type id)
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+interface Segment {
+  marker: number;
+  start: number;
+  end: number;
+}
+
+const hasSignature = (bytes: Uint8Array, offset: number, signature: string) => {
+  for (let i = 0; i < signature.length; i++) {
+    if (bytes[offset + i] !== signature.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+// Marker segments before the image data; null when the buffer is not a JPEG
+const readSegments = (bytes: Uint8Array): Segment[] | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 4 || view.getUint16(0) !== SOI) return null;
+
+  const segments: Segment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === SOS) break;
+    const end = offset + 2 + view.getUint16(offset + 2);
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+  return segments;
+};
+
+export const extractJpegMetadata = (buffer: ArrayBuffer): JpegMetadata | null => {
+  const bytes = new Uint8Array(buffer);
+  const segments = readSegments(bytes);
+  if (!segments) return null;
+
+  let exif: Uint8Array | null = null;
+  const icc: Uint8Array[] = [];
+  segments.forEach(({ marker, start, end }) => {
+    if (marker === APP1 && !exif && hasSignature(bytes, start + 4, EXIF_HEADER)) {
+      exif = bytes.slice(start, end);
+    } else if (marker === APP2 && hasSignature(bytes, start + 4, ICC_HEADER)) {
+      icc.push(bytes.slice(start, end));
+    }
+  });
+  return { exif, icc };
+};
+
+/**
+ * Returns a patched copy of an APP1 segment:
+ * orientation reset to 1 (the canvas already drew the photo upright),
+ * pixel dimensions set to the export size, embedded thumbnail dropped,
+ * and optionally the GPS block removed.
+ */
+export const patchExifSegment = (segment: Uint8Array, patch: ExifPatch): Uint8Array => {
+  const bytes = segment.slice();
+  const view = new DataView(bytes.buffer);
+  const tiff = 4 + EXIF_HEADER.length;
+  if (tiff + 8 > bytes.length) return bytes;
+
+  const little = view.getUint16(tiff) === 0x4949;
+  const u16 = (o: number) => view.getUint16(o, little);
+  const u32 = (o: number) => view.getUint32(o, little);
+  const inBounds = (o: number, size: number) => o >= 0 && o + size <= bytes.length;
+
+  const ifd0 = tiff + u32(tiff + 4);
+  if (!inBounds(ifd0, 2)) return bytes;
+  const count = u16(ifd0);
+  if (!inBounds(ifd0 + 2, count * 12 + 4)) return bytes;
+
+  const writeNumber = (entry: number, value: number) => {
+    const type = u16(entry + 2);
+    if (type === 3) view.setUint16(entry + 8, value, little);
+    else if (type === 4) view.setUint32(entry + 8, value, little);
+  };
+
+  // Blank an IFD and every value it stores out of line
+  const eraseIfd = (base: number) => {
+    if (!inBounds(base, 2)) return;
+    const n = u16(base);
+    if (!inBounds(base + 2, n * 12)) return;
+    for (let i = 0; i < n; i++) {
+      const entry = base + 2 + i * 12;
+      const size = (TYPE_SIZES[u16(entry + 2)] || 0) * u32(entry + 4);
+      const valueOffset = tiff + u32(entry + 8);
+      if (size > 4 && inBounds(valueOffset, size)) bytes.fill(0, valueOffset, valueOffset + size);
+    }
+    bytes.fill(0, base, base + 2 + n * 12);
+  };
+
+  const kept: Uint8Array[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    const tag = u16(entry);
+
+    if (tag === TAG_ORIENTATION) writeNumber(entry, 1);
+
+    if (tag === TAG_EXIF_POINTER) {
+      const exifIfd = tiff + u32(entry + 8);
+      if (inBounds(exifIfd, 2)) {
+        const n = u16(exifIfd);
+        for (let j = 0; j < n; j++) {
+          const sub = exifIfd + 2 + j * 12;
+          if (!inBounds(sub, 12)) break;
+          if (u16(sub) === TAG_PIXEL_X) writeNumber(sub, Math.round(patch.width));
+          if (u16(sub) === TAG_PIXEL_Y) writeNumber(sub, Math.round(patch.height));
+        }
+      }
+    }
+
+    if (tag === TAG_GPS_POINTER && patch.stripLocation) {
+      eraseIfd(tiff + u32(entry + 8));
+      continue;
+    }
+    kept.push(bytes.slice(entry, entry + 12));
+  }
+
+  // Rewrite IFD0 in place; the table can only shrink
+  bytes.fill(0, ifd0, ifd0 + 2 + count * 12 + 4);
+  view.setUint16(ifd0, kept.length, little);
+  kept.forEach((entry, i) => bytes.set(entry, ifd0 + 2 + i * 12));
+  // Next IFD (the thumbnail of the unframed photo) is dropped
+  view.setUint32(ifd0 + 2 + kept.length * 12, 0, little);
+
+  return bytes;
+};
+
+/**
+ * Inserts metadata segments right after SOI of an encoded JPEG.
+ * The encoder's own JFIF APP0 is removed, since EXIF expects APP1 to come first.
+ */
+export const embedJpegMetadata = (jpeg: ArrayBuffer, metadata: JpegMetadata): Blob => {
+  const bytes = new Uint8Array(jpeg);
+  const segments = readSegments(bytes);
+  if (!segments) return new Blob([bytes], { type: 'image/jpeg' });
+
+  let bodyStart = 2;
+  for (const segment of segments) {
+    if (segment.marker !== APP0) break;
+    bodyStart = segment.end;
+  }
+
+  const parts: BlobPart[] = [bytes.subarray(0, 2)];
+  if (metadata.exif) parts.push(metadata.exif);
+  parts.push(...metadata.icc, bytes.subarray(bodyStart));
+  return new Blob(parts, { type: 'image/jpeg' });
+};
@@ -0,0 +1,176 @@
+import { Color, LeakSettings, LeakStyle, RenderContext } from '../types';
+import { isDark, mixColors, parseHex } from './color';
+import { createRandom } from './random';
+import type { Rect } from './renderer';
+
+/**
+ * Light leaks.
+ * Every leak starts at a point on the photo's edge and travels in one direction; all sizes are
+ * fractions of the photo's diagonal, so preview and export show the same leak.
+ */
+
+export const LEAK_STYLES: LeakStyle[] = ['edge-burn', 'corner-flare', 'streak', 'prism', 'fog'];
+
+// Colour each style starts with when it is picked
+export const LEAK_COLORS: Record<LeakStyle, string> = {
+  'edge-burn': '#ff7a1a',
+  'corner-flare': '#ff9a3c',
+  streak: '#ff3b1f',
+  prism: '#ff4040',
+  fog: '#ff8c5a',
+};
+
+// Largest tilt away from the photo centre a randomised leak gets, in degrees
+const RANDOM_ANGLE = 35;
+
+const WHITE: Color = { r: 255, g: 255, b: 255 };
+
+const rgba = ({ r, g, b }: Color, alpha: number) =>
+  `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${Math.max(0, Math.min(1, alpha))})`;
+
+// HSL hue in degrees; the prism's spectrum starts here
+const hueOf = ({ r, g, b }: Color) => {
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  if (max === min) return 0;
+  const d = max - min;
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return h * 60;
+};
+
+// Point on the photo's edge, 0..1 clockwise from the top-left corner
+const edgePoint = (rect: Rect, position: number) => {
+  const t = (((position % 1) + 1) % 1) * 4;
+  const side = Math.floor(t), f = t - side;
+  switch (side) {
+    case 0: return { x: rect.x + rect.width * f, y: rect.y };
+    case 1: return { x: rect.x + rect.width, y: rect.y + rect.height * f };
+    case 2: return { x: rect.x + rect.width * (1 - f), y: rect.y + rect.height };
+    default: return { x: rect.x, y: rect.y + rect.height * (1 - f) };
+  }
+};
+
+// Everything a style needs, in a frame where the leak enters at the origin and travels along +x
+interface Leak {
+  color: Color;
+  intensity: number;
+  reach: number; // photo diagonal
+  random: () => number;
+}
+
+// A radial gradient squashed across the leak's direction
+const fillEllipse = (ctx: RenderContext, cx: number, cy: number, radius: number, squash: number, stops: [number, string][]) => {
+  ctx.save();
+  ctx.scale(1, squash);
+  const gradient = ctx.createRadialGradient(cx, cy / squash, 0, cx, cy / squash, radius);
+  stops.forEach(([offset, color]) => gradient.addColorStop(offset, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(cx - radius, cy / squash - radius, radius * 2, radius * 2);
+  ctx.restore();
+};
+
+const fillAlong = (ctx: RenderContext, from: number, to: number, reach: number, stops: [number, string][]) => {
+  const gradient = ctx.createLinearGradient(from, 0, to, 0);
+  stops.forEach(([offset, color]) => gradient.addColorStop(offset, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(-reach * 2, -reach * 2, reach * 4, reach * 4);
+};
+
+const DRAW: Record<LeakStyle, (ctx: RenderContext, leak: Leak) => void> = {
+  // A warm wash along the whole edge with a hot spot where the light got in
+  'edge-burn': (ctx, { color, intensity: k, reach }) => {
+    const hot = mixColors(color, WHITE, 0.45);
+    fillAlong(ctx, 0, reach * 0.5, reach, [[0, rgba(color, 0.75 * k)], [0.4, rgba(color, 0.25 * k)], [1, rgba(color, 0)]]);
+    fillEllipse(ctx, 0, 0, reach * 0.35, 2.2, [[0, rgba(hot, 0.9 * k)], [0.4, rgba(color, 0.5 * k)], [1, rgba(color, 0)]]);
+  },
+  // Bright core at the source with faint ghosts of the aperture further in
+  'corner-flare': (ctx, { color, intensity: k, reach, random }) => {
+    const hot = mixColors(color, WHITE, 0.6);
+    fillEllipse(ctx, 0, 0, reach * 0.75, 1, [[0, rgba(hot, k)], [0.15, rgba(color, 0.7 * k)], [0.5, rgba(color, 0.2 * k)], [1, rgba(color, 0)]]);
+    for (let i = 0; i < 3; i++) {
+      const distance = reach * (0.3 + random() * 0.5);
+      const radius = reach * (0.02 + random() * 0.05);
+      const ghost = mixColors(color, WHITE, random() * 0.5);
+      fillEllipse(ctx, distance, (random() - 0.5) * reach * 0.04, radius, 1, [[0, rgba(ghost, 0.18 * k)], [0.7, rgba(ghost, 0.1 * k)], [1, rgba(ghost, 0)]]);
+    }
+  },
+  // A narrow red core inside a wider orange glow, running into the frame
+  streak: (ctx, { color, intensity: k, reach }) => {
+    const glow = mixColors(color, { r: 255, g: 170, b: 60 }, 0.5);
+    fillEllipse(ctx, 0, 0, reach, 0.22, [[0, rgba(glow, 0.55 * k)], [0.5, rgba(glow, 0.2 * k)], [1, rgba(glow, 0)]]);
+    fillEllipse(ctx, 0, 0, reach * 0.9, 0.06, [[0, rgba(color, k)], [0.45, rgba(color, 0.5 * k)], [1, rgba(color, 0)]]);
+  },
+  // Side-by-side spectral bands, starting at the chosen colour's hue
+  prism: (ctx, { color, intensity: k, reach }) => {
+    const bands = 7;
+    const width = reach * 0.035;
+    const start = hueOf(color);
+    for (let i = 0; i < bands; i++) {
+      const hue = (start + (i / bands) * 300) % 360;
+      const y = (i - (bands - 1) / 2) * width;
+      fillEllipse(ctx, 0, y, reach * 0.7, 0.05, [
+        [0, `hsla(${hue}, 100%, 60%, ${0.5 * k})`],
+        [0.6, `hsla(${hue}, 100%, 60%, ${0.15 * k})`],
+        [1, `hsla(${hue}, 100%, 60%, 0)`],
+      ]);
+    }
+  },
+  // Dense, uneven exposure from outside the frame, fading towards the middle of the photo
+  fog: (ctx, { color, intensity: k, reach, random }) => {
+    const hot = mixColors(color, WHITE, 0.35);
+    fillAlong(ctx, -reach * 0.3, reach * 0.6, reach, [[0, rgba(hot, k)], [0.3, rgba(color, 0.85 * k)], [0.6, rgba(color, 0.3 * k)], [1, rgba(color, 0)]]);
+    for (let i = 0; i < 3; i++) {
+      fillEllipse(ctx, reach * random() * 0.15, (random() - 0.5) * reach * 0.8, reach * (0.15 + random() * 0.15), 1.6,
+        [[0, rgba(hot, 0.4 * k)], [1, rgba(hot, 0)]]);
+    }
+  },
+};
+
+/**
+ * Draws the leak over the photo (and, for fog, the border) with `screen`, so it only ever brightens.
+ * `seed` is the photo's; in randomised mode it also decides where the leak lands.
+ * `paper` is the border colour: fog multiplies onto light borders, where screening would not show.
+ */
+export const drawLightLeak = (
+  ctx: RenderContext,
+  image: Rect,
+  canvas: { width: number; height: number },
+  leak: LeakSettings,
+  seed: number,
+  paper: string,
+) => {
+  const color = parseHex(leak.color) ?? parseHex(LEAK_COLORS[leak.style])!;
+  // The variant is mixed in so "reshuffle" gives every photo a new leak
+  const leakSeed = seed ^ Math.imul(leak.variant + 1, 0x9e3779b9);
+  const random = createRandom(leakSeed);
+  const position = leak.randomize ? random() : leak.position;
+  const angle = leak.randomize ? (random() * 2 - 1) * RANDOM_ANGLE : leak.angle;
+  const intensity = leak.randomize ? leak.intensity * (0.7 + random() * 0.3) : leak.intensity;
+  if (intensity <= 0) return;
+
+  const source = edgePoint(image, position);
+  // Angle 0 points at the middle of the photo
+  const toCentre = Math.atan2(image.y + image.height / 2 - source.y, image.x + image.width / 2 - source.x);
+  const reach = Math.hypot(image.width, image.height);
+
+  const draw = (clip: (ctx: RenderContext) => void, composite: GlobalCompositeOperation) => {
+    ctx.save();
+    ctx.beginPath();
+    clip(ctx);
+    ctx.globalCompositeOperation = composite;
+    ctx.translate(source.x, source.y);
+    ctx.rotate(toCentre + (angle * Math.PI) / 180);
+    // Fresh generator per pass, so the photo and border halves of a fog line up
+    DRAW[leak.style](ctx, { color, intensity, reach, random: createRandom(leakSeed + 1) });
+    ctx.restore();
+  };
+
+  draw(c => { c.rect(image.x, image.y, image.width, image.height); c.clip(); }, 'screen');
+  if (leak.style === 'fog') {
+    // The border around the photo, so the fog carries on past the frame edge
+    draw(c => {
+      c.rect(0, 0, canvas.width, canvas.height);
+      c.rect(image.x, image.y, image.width, image.height);
+      c.clip('evenodd');
+    }, isDark(paper) ? 'screen' : 'multiply');
+  }
+};
@@ -0,0 +1,96 @@
+import { LensSettings } from '../types';
+import { createCanvas, getContext } from './renderer';
+
+/**
+ * Lens character: barrel/pincushion distortion, lateral chromatic aberration and vignetting.
+ * Everything is computed in coordinates normalised to the photo, so a preview proxy and the
+ * full-size export bend, fringe and darken in the same places.
+ */
+
+// Radial coefficient at distortion ±1
+const MAX_DISTORTION = 0.25;
+// Red/blue magnification difference at aberration 1, as a fraction of the radius
+const MAX_ABERRATION = 0.006;
+
+export const hasLensEffect = (lens: LensSettings) =>
+  lens.distortion !== 0 || lens.aberration > 0 || lens.vignette.amount !== 0;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * The photo redrawn through the lens model at its output size.
+ * Returned as a canvas so the LUT and filters can take it from there.
+ */
+export const applyLens = (source: CanvasImageSource, width: number, height: number, lens: LensSettings) => {
+  const w = Math.max(1, Math.round(width)), h = Math.max(1, Math.round(height));
+  const canvas = createCanvas(w, h);
+  const ctx = getContext(canvas);
+  if (!ctx) return source;
+  ctx.drawImage(source, 0, 0, w, h);
+  const input = ctx.getImageData(0, 0, w, h).data;
+  const output = ctx.createImageData(w, h);
+  const data = output.data;
+
+  const cx = (w - 1) / 2, cy = (h - 1) / 2;
+  // Radii are measured in half-diagonals: 1 at the corners
+  const diagonal = Math.hypot(w / 2, h / 2);
+  const k = lens.distortion * MAX_DISTORTION;
+  // Barrel is normalised at the corners, pincushion at the short edge, so the frame stays filled
+  const edge = Math.min(w, h) / 2 / diagonal;
+  const norm = 1 + k * (k > 0 ? 1 : edge * edge);
+  const fringe = lens.aberration * MAX_ABERRATION;
+
+  // Bilinear read of one channel, clamped to the photo
+  const sample = (x: number, y: number, channel: number) => {
+    const fx = Math.min(w - 1, Math.max(0, x)), fy = Math.min(h - 1, Math.max(0, y));
+    const x0 = Math.floor(fx), y0 = Math.floor(fy);
+    const x1 = Math.min(w - 1, x0 + 1), y1 = Math.min(h - 1, y0 + 1);
+    const tx = fx - x0, ty = fy - y0;
+    const top = input[(y0 * w + x0) * 4 + channel] * (1 - tx) + input[(y0 * w + x1) * 4 + channel] * tx;
+    const bottom = input[(y1 * w + x0) * 4 + channel] * (1 - tx) + input[(y1 * w + x1) * 4 + channel] * tx;
+    return top + (bottom - top) * ty;
+  };
+
+  // Vignette shape: roundness 0 follows the frame, 1 is a circle, negative squares it off
+  const { amount, midpoint, roundness, feather } = lens.vignette;
+  const short = Math.min(w, h) / 2;
+  const axisX = roundness > 0 ? w / 2 + (short - w / 2) * roundness : w / 2;
+  const axisY = roundness > 0 ? h / 2 + (short - h / 2) * roundness : h / 2;
+  const power = 2 + Math.max(0, -roundness) * 6;
+  const reach = 0.6 + midpoint * 0.8;
+  const softness = 0.05 + feather * 0.9;
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const dx = (x - cx) / diagonal, dy = (y - cy) / diagonal;
+      const scale = (1 + k * (dx * dx + dy * dy)) / norm;
+      const sx = cx + dx * diagonal * scale, sy = cy + dy * diagonal * scale;
+      const i = (y * w + x) * 4;
+      if (fringe > 0) {
+        // Red lands slightly further out than green, blue slightly further in
+        data[i] = sample(cx + (sx - cx) * (1 + fringe), cy + (sy - cy) * (1 + fringe), 0);
+        data[i + 1] = sample(sx, sy, 1);
+        data[i + 2] = sample(cx + (sx - cx) * (1 - fringe), cy + (sy - cy) * (1 - fringe), 2);
+      } else {
+        data[i] = sample(sx, sy, 0);
+        data[i + 1] = sample(sx, sy, 1);
+        data[i + 2] = sample(sx, sy, 2);
+      }
+      data[i + 3] = 255;
+
+      if (amount !== 0) {
+        const d = (Math.abs((x - cx) / axisX) ** power + Math.abs((y - cy) / axisY) ** power) ** (1 / power);
+        const t = smoothstep(reach - softness, reach, d) * amount;
+        for (let c = 0; c < 3; c++) {
+          // Negative amounts darken towards black, positive ones lighten towards white
+          data[i + c] = t < 0 ? data[i + c] * (1 + t) : data[i + c] + (255 - data[i + c]) * t;
+        }
+      }
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+  return canvas;
+};
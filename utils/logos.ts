@@ -0,0 +1,171 @@
+import { RenderContext } from '../types';
+
+/**
+ * Camera brand marks for the caption area.
+ * Drawn as canvas vectors (shapes and set type) so they stay sharp at any export size.
+ * `ink` is the frame's text colour, `paper` its background; monochrome marks use only those two.
+ */
+
+interface BrandMark {
+  name: string;
+  // Tested against the EXIF make first, then the free-form camera line
+  match: RegExp;
+  // Width of the mark for a given height
+  measure: (ctx: RenderContext, height: number) => number;
+  draw: (ctx: RenderContext, x: number, y: number, height: number, colors: MarkColors) => void;
+}
+
+interface MarkColors {
+  ink: string;
+  paper: string;
+  monochrome: boolean;
+}
+
+interface Wordmark {
+  text: string;
+  font: string; // CSS font, '{size}' is filled in
+  color: string | null; // null = frame text colour
+  tracking?: number; // em
+  scale?: number; // cap height tweak relative to the box
+}
+
+const setWordFont = (ctx: RenderContext, mark: Wordmark, height: number) => {
+  const size = height * (mark.scale ?? 0.9);
+  ctx.font = mark.font.replace('{size}', `${size}px`);
+  ctx.letterSpacing = `${(mark.tracking ?? 0) * size}px`;
+};
+
+const wordmark = (name: string, match: RegExp, mark: Wordmark): BrandMark => ({
+  name,
+  match,
+  measure: (ctx, height) => {
+    setWordFont(ctx, mark, height);
+    return ctx.measureText(mark.text).width;
+  },
+  draw: (ctx, x, y, height, { ink, monochrome }) => {
+    setWordFont(ctx, mark, height);
+    ctx.fillStyle = monochrome || !mark.color ? ink : mark.color;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(mark.text, x, y + height / 2);
+  },
+});
+
+// Square and round badges with lettering inside
+const badge = (name: string, match: RegExp, options: {
+  shape: 'circle' | 'square';
+  fill: string;
+  text: string;
+  textColor: string;
+  font: string;
+  rays?: boolean;
+}): BrandMark => ({
+  name,
+  match,
+  measure: (_ctx, height) => height,
+  draw: (ctx, x, y, height, { ink, paper, monochrome }) => {
+    const fill = monochrome ? ink : options.fill;
+    const letters = monochrome ? paper : options.textColor;
+    ctx.save();
+    ctx.fillStyle = fill;
+    ctx.beginPath();
+    if (options.shape === 'circle') {
+      ctx.arc(x + height / 2, y + height / 2, height / 2, 0, Math.PI * 2);
+    } else {
+      ctx.rect(x, y, height, height);
+    }
+    ctx.fill();
+    ctx.clip();
+
+    if (options.rays) {
+      // Light rays fanning out from the lower left corner
+      ctx.strokeStyle = letters;
+      ctx.globalAlpha = 0.35;
+      ctx.lineWidth = height * 0.025;
+      for (let i = 0; i < 6; i++) {
+        const angle = ((i + 0.5) / 6) * (Math.PI / 2);
+        ctx.beginPath();
+        ctx.moveTo(x, y + height);
+        ctx.lineTo(x + Math.cos(angle) * height * 1.5, y + height - Math.sin(angle) * height * 1.5);
+        ctx.stroke();
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    ctx.fillStyle = letters;
+    ctx.font = options.font.replace('{size}', `${height * 0.32}px`);
+    ctx.letterSpacing = '0px';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(options.text, x + height / 2, y + height * (options.rays ? 0.62 : 0.52), height * 0.9);
+    ctx.restore();
+  },
+});
+
+export const BRAND_MARKS: Record<string, BrandMark> = {
+  leica: badge('Leica', /leica/i, {
+    shape: 'circle', fill: '#e20612', text: 'Leica', textColor: '#ffffff', font: 'italic bold {size} Brush Script MT, Snell Roundhand, cursive',
+  }),
+  nikon: badge('Nikon', /nikon/i, {
+    shape: 'square', fill: '#ffe100', text: 'Nikon', textColor: '#000000', font: 'italic 900 {size} Helvetica Neue, Arial, sans-serif', rays: true,
+  }),
+  canon: wordmark('Canon', /canon/i, { text: 'Canon', font: 'bold {size} Georgia, Times New Roman, serif', color: '#cc0000' }),
+  fujifilm: wordmark('Fujifilm', /fuji/i, { text: 'FUJIFILM', font: '900 {size} Helvetica Neue, Arial, sans-serif', color: null, scale: 0.75 }),
+  sony: wordmark('Sony', /sony/i, { text: 'SONY', font: 'bold {size} Times New Roman, serif', color: null, tracking: 0.12 }),
+  hasselblad: wordmark('Hasselblad', /hasselblad/i, { text: 'HASSELBLAD', font: '300 {size} Futura, Century Gothic, sans-serif', color: null, tracking: 0.3, scale: 0.6 }),
+  ricoh: wordmark('Ricoh', /ricoh/i, { text: 'RICOH', font: '900 {size} Helvetica Neue, Arial, sans-serif', color: '#cf142b', tracking: 0.04 }),
+  pentax: wordmark('Pentax', /pentax/i, { text: 'PENTAX', font: 'bold {size} Helvetica Neue, Arial, sans-serif', color: null, tracking: 0.08, scale: 0.75 }),
+  olympus: wordmark('Olympus', /olympus|om digital|om system/i, { text: 'OLYMPUS', font: 'bold {size} Times New Roman, serif', color: '#08107b', scale: 0.75 }),
+  panasonic: wordmark('Lumix', /panasonic|lumix/i, { text: 'LUMIX', font: '900 {size} Helvetica Neue, Arial, sans-serif', color: null, tracking: 0.05, scale: 0.8 }),
+  sigma: wordmark('Sigma', /sigma/i, { text: 'SIGMA', font: 'bold {size} Helvetica Neue, Arial, sans-serif', color: null, tracking: 0.1, scale: 0.8 }),
+};
+
+// Brand id from the camera make (or the camera line when the make is empty); null when unknown
+export const detectBrand = (make: string, camera: string): string | null => {
+  for (const text of [make, camera]) {
+    if (!text) continue;
+    const hit = Object.entries(BRAND_MARKS).find(([, mark]) => mark.match.test(text));
+    if (hit) return hit[0];
+  }
+  return null;
+};
+
+export const measureBrandMark = (ctx: RenderContext, brand: string, height: number) =>
+  BRAND_MARKS[brand]?.measure(ctx, height) ?? 0;
+
+export const drawBrandMark = (ctx: RenderContext, brand: string, x: number, y: number, height: number, colors: MarkColors) => {
+  const mark = BRAND_MARKS[brand];
+  if (!mark) return;
+  ctx.save();
+  mark.draw(ctx, x, y, height, colors);
+  ctx.restore();
+};
+
+// Long edge custom logos are rasterised to; plenty for a mark a few percent of the frame tall
+const CUSTOM_LOGO_EDGE = 512;
+
+/**
+ * Decodes an uploaded PNG/SVG (as a data URL) into a bitmap the renderer and worker can use,
+ * `edge` pixels on its long side. SVGs without an intrinsic size are treated as square.
+ */
+export const decodeLogo = async (dataUrl: string, edge = CUSTOM_LOGO_EDGE): Promise<ImageBitmap> => {
+  const img = new Image();
+  img.src = dataUrl;
+  await img.decode();
+  const w = img.naturalWidth || edge;
+  const h = img.naturalHeight || edge;
+  const scale = edge / Math.max(w, h);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(w * scale);
+  canvas.height = Math.round(h * scale);
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return createImageBitmap(canvas);
+};
+
+export const readFileAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,227 @@
+import { CubeLut, LutInterpolation, LutSettings } from '../types';
+import { createCanvas, getContext } from './renderer';
+
+/**
+ * 3D colour lookup tables.
+ * Tables are flat RGB triples in .cube order (red varies fastest) with inputs in 0..1.
+ * Film looks ship as small colour transforms baked into tables on first use, so they
+ * travel with the code instead of as files.
+ */
+
+export const LUT_MIN_SIZE = 2;
+export const LUT_MAX_SIZE = 65;
+// Grid size the built-in looks are baked at
+const BUILTIN_SIZE = 33;
+
+// -- Parsing --
+/**
+ * Reads an Adobe/Resolve .cube file. DOMAIN_MIN/DOMAIN_MAX give the input range the grid
+ * spans; they are kept with the table and applied to pixels on lookup, the table itself is
+ * stored as written.
+ */
+export const parseCubeLut = (text: string, name: string): Omit<CubeLut, 'id'> => {
+  let size = 0;
+  let title = '';
+  let min = [0, 0, 0], max = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === 'TITLE') title = line.slice(5).trim().replace(/^"|"$/g, '');
+    else if (keyword === 'LUT_3D_SIZE') size = parseInt(rest[0], 10);
+    else if (keyword === 'LUT_1D_SIZE') throw new Error('1D LUTs are not supported');
+    else if (keyword === 'DOMAIN_MIN') min = rest.map(Number);
+    else if (keyword === 'DOMAIN_MAX') max = rest.map(Number);
+    // Resolve's form: one input range shared by all three channels
+    else if (keyword === 'LUT_3D_INPUT_RANGE') {
+      const [low, high] = rest.map(Number);
+      min = [low, low, low];
+      max = [high, high, high];
+    }
+    else if (/^[-+.\d]/.test(keyword)) values.push(Number(keyword), Number(rest[0]), Number(rest[1]));
+  }
+
+  if (!(size >= LUT_MIN_SIZE && size <= LUT_MAX_SIZE)) throw new Error(`Unsupported LUT size: ${size || 'missing'}`);
+  if (values.length !== size ** 3 * 3) throw new Error(`Expected ${size ** 3} entries, found ${values.length / 3}`);
+  if (values.some(v => !Number.isFinite(v))) throw new Error('Malformed LUT entry');
+
+  if (min.length !== 3 || max.length !== 3 || [...min, ...max].some(v => !Number.isFinite(v))) throw new Error('Malformed LUT domain');
+
+  const data = Float32Array.from(values);
+  const isDefault = min.every(v => v === 0) && max.every(v => v === 1);
+  return { name: title || name, size, data, ...(isDefault ? {} : { domainMin: min, domainMax: max }) };
+};
+
+// -- Built-in Film Looks --
+type Transform = (r: number, g: number, b: number) => [number, number, number];
+
+const clamp = (v: number) => Math.min(1, Math.max(0, v));
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+// Contrast around mid grey; k > 0 steepens, k < 0 flattens
+const curve = (v: number, k: number) => clamp(v + k * v * (1 - v) * (2 * v - 1) * 2);
+// Raises blacks to `floor` and pulls whites down to `ceiling`
+const range = (v: number, floor: number, ceiling: number) => floor + v * (ceiling - floor);
+const saturate = (r: number, g: number, b: number, s: number): [number, number, number] => {
+  const y = luma(r, g, b);
+  return [y + (r - y) * s, y + (g - y) * s, y + (b - y) * s];
+};
+
+const BUILTIN_LOOKS: Record<string, { name: string; transform: Transform }> = {
+  'film-portra': {
+    name: 'Portra 400',
+    // Warm skin, soft contrast, lifted shadows, quiet greens
+    transform: (r, g, b) => {
+      const [sr, sg, sb] = saturate(r, g * 0.97 + r * 0.03, b, 0.85);
+      return [range(curve(sr * 1.04, -0.15), 0.04, 0.98), range(curve(sg, -0.15), 0.035, 0.97), range(curve(sb * 0.93, -0.15), 0.05, 0.94)];
+    },
+  },
+  'film-ektar': {
+    name: 'Ektar 100',
+    // Dense blacks, saturated reds and blues
+    transform: (r, g, b) => {
+      const [sr, sg, sb] = saturate(r, g, b, 1.35);
+      return [curve(sr * 1.02, 0.35), curve(sg, 0.3), curve(sb * 1.03, 0.3)];
+    },
+  },
+  'film-400h': {
+    name: 'Pro 400H',
+    // Pastel highlights, cool green-cyan shadows
+    transform: (r, g, b) => {
+      const y = luma(r, g, b);
+      const shadow = (1 - y) ** 2;
+      const [sr, sg, sb] = saturate(r, g, b, 0.8);
+      return [range(curve(sr - shadow * 0.03, -0.1), 0.03, 0.97), range(curve(sg + shadow * 0.02, -0.1), 0.05, 0.99), range(curve(sb + shadow * 0.03, -0.1), 0.06, 0.98)];
+    },
+  },
+  'film-cinestill': {
+    name: 'CineStill 800T',
+    // Tungsten balance: cool overall, teal shadows, warm highlights
+    transform: (r, g, b) => {
+      const y = luma(r, g, b);
+      const warm = y * y * 0.06;
+      return [curve(r * 0.92 + warm, 0.2), curve(g * 0.98 + warm * 0.4, 0.2), curve(b * 1.08 - warm * 0.5 + (1 - y) * 0.03, 0.2)];
+    },
+  },
+  'film-trix': {
+    name: 'Tri-X 400',
+    // Black and white with an orange filter's darker skies and a strong S-curve
+    transform: (r, g, b) => {
+      const y = curve(clamp(0.45 * r + 0.45 * g + 0.1 * b), 0.45);
+      return [y, y, y];
+    },
+  },
+};
+
+export const BUILTIN_LUTS = Object.entries(BUILTIN_LOOKS).map(([id, look]) => ({ id, name: look.name }));
+
+const bake = (id: string, name: string, transform: Transform): CubeLut => {
+  const size = BUILTIN_SIZE;
+  const data = new Float32Array(size ** 3 * 3);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const out = transform(r / (size - 1), g / (size - 1), b / (size - 1));
+        data[i++] = clamp(out[0]);
+        data[i++] = clamp(out[1]);
+        data[i++] = clamp(out[2]);
+      }
+    }
+  }
+  return { id, name, size, data };
+};
+
+const baked = new Map<string, CubeLut>();
+
+// Built-in look or uploaded table by id; null when the id is unknown (e.g. a deleted upload)
+export const resolveLut = (id: string, uploaded: Record<string, CubeLut> = {}): CubeLut | null => {
+  const look = BUILTIN_LOOKS[id];
+  if (!look) return uploaded[id] ?? null;
+  let lut = baked.get(id);
+  if (!lut) {
+    lut = bake(id, look.name, look.transform);
+    baked.set(id, lut);
+  }
+  return lut;
+};
+
+// -- Applying --
+type Lookup = (data: Float32Array, size: number, r: number, g: number, b: number, out: Float32Array) => void;
+
+const trilinear: Lookup = (data, size, r, g, b, out) => {
+  const n = size - 1;
+  const x = r * n, y = g * n, z = b * n;
+  const x0 = Math.min(Math.floor(x), n - 1), y0 = Math.min(Math.floor(y), n - 1), z0 = Math.min(Math.floor(z), n - 1);
+  const fx = x - x0, fy = y - y0, fz = z - z0;
+  const at = (i: number, j: number, k: number) => ((z0 + k) * size * size + (y0 + j) * size + (x0 + i)) * 3;
+  const c000 = at(0, 0, 0), c100 = at(1, 0, 0), c010 = at(0, 1, 0), c110 = at(1, 1, 0);
+  const c001 = at(0, 0, 1), c101 = at(1, 0, 1), c011 = at(0, 1, 1), c111 = at(1, 1, 1);
+  for (let ch = 0; ch < 3; ch++) {
+    const c00 = data[c000 + ch] + (data[c100 + ch] - data[c000 + ch]) * fx;
+    const c10 = data[c010 + ch] + (data[c110 + ch] - data[c010 + ch]) * fx;
+    const c01 = data[c001 + ch] + (data[c101 + ch] - data[c001 + ch]) * fx;
+    const c11 = data[c011 + ch] + (data[c111 + ch] - data[c011 + ch]) * fx;
+    const c0 = c00 + (c10 - c00) * fy;
+    const c1 = c01 + (c11 - c01) * fy;
+    out[ch] = c0 + (c1 - c0) * fz;
+  }
+};
+
+// Splits each cell into six tetrahedra along its grey diagonal; keeps neutrals neutral
+const tetrahedral: Lookup = (data, size, r, g, b, out) => {
+  const n = size - 1;
+  const x = r * n, y = g * n, z = b * n;
+  const x0 = Math.min(Math.floor(x), n - 1), y0 = Math.min(Math.floor(y), n - 1), z0 = Math.min(Math.floor(z), n - 1);
+  const fx = x - x0, fy = y - y0, fz = z - z0;
+  const at = (i: number, j: number, k: number) => ((z0 + k) * size * size + (y0 + j) * size + (x0 + i)) * 3;
+  const c000 = at(0, 0, 0), c111 = at(1, 1, 1);
+  // The two intermediate corners and the weights of the path 000 -> first -> second -> 111
+  let c1: number, c2: number, w0: number, w1: number, w2: number, w3: number;
+  if (fx >= fy) {
+    if (fy >= fz) { c1 = at(1, 0, 0); c2 = at(1, 1, 0); w0 = 1 - fx; w1 = fx - fy; w2 = fy - fz; w3 = fz; }
+    else if (fx >= fz) { c1 = at(1, 0, 0); c2 = at(1, 0, 1); w0 = 1 - fx; w1 = fx - fz; w2 = fz - fy; w3 = fy; }
+    else { c1 = at(0, 0, 1); c2 = at(1, 0, 1); w0 = 1 - fz; w1 = fz - fx; w2 = fx - fy; w3 = fy; }
+  } else {
+    if (fz >= fy) { c1 = at(0, 0, 1); c2 = at(0, 1, 1); w0 = 1 - fz; w1 = fz - fy; w2 = fy - fx; w3 = fx; }
+    else if (fz >= fx) { c1 = at(0, 1, 0); c2 = at(0, 1, 1); w0 = 1 - fy; w1 = fy - fz; w2 = fz - fx; w3 = fx; }
+    else { c1 = at(0, 1, 0); c2 = at(1, 1, 0); w0 = 1 - fy; w1 = fy - fx; w2 = fx - fz; w3 = fz; }
+  }
+  for (let ch = 0; ch < 3; ch++) {
+    out[ch] = w0 * data[c000 + ch] + w1 * data[c1 + ch] + w2 * data[c2 + ch] + w3 * data[c111 + ch];
+  }
+};
+
+const LOOKUPS: Record<LutInterpolation, Lookup> = { trilinear, tetrahedral };
+
+/**
+ * The photo drawn at its output size and graded through the LUT, blended with the
+ * original by `settings.intensity`. Returned as a canvas so later passes can reuse it.
+ */
+export const gradePhoto = (source: CanvasImageSource, width: number, height: number, lut: CubeLut, settings: LutSettings) => {
+  const w = Math.max(1, Math.round(width)), h = Math.max(1, Math.round(height));
+  const canvas = createCanvas(w, h);
+  const ctx = getContext(canvas);
+  if (!ctx) return source;
+  ctx.drawImage(source, 0, 0, w, h);
+
+  const image = ctx.getImageData(0, 0, w, h);
+  const data = image.data;
+  const lookup = LOOKUPS[settings.interpolation] ?? trilinear;
+  const k = Math.min(1, Math.max(0, settings.intensity));
+  const out = new Float32Array(3);
+  // 8-bit pixel value to grid position, per channel: the LUT's input domain maps onto 0..1
+  const min = lut.domainMin ?? [0, 0, 0], max = lut.domainMax ?? [1, 1, 1];
+  const inputs = [0, 1, 2].map(ch => Float32Array.from({ length: 256 }, (_, v) => clamp((v / 255 - min[ch]) / ((max[ch] - min[ch]) || 1))));
+  const [inR, inG, inB] = inputs;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    lookup(lut.data, lut.size, inR[r], inG[g], inB[b], out);
+    data[i] = r + (out[0] * 255 - r) * k;
+    data[i + 1] = g + (out[1] * 255 - g) * k;
+    data[i + 2] = b + (out[2] * 255 - b) * k;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,144 @@
+import { BorderSettings, RenderCanvas, RenderContext } from '../types';
+import { mixColors, parseHex, toHex } from './color';
+import { createCanvas, getContext, Rect } from './renderer';
+
+/**
+ * Passe-partout and corners: the inner mat with its bevelled windows and keyline, and the
+ * rounded corners of the photo and of the whole canvas. Sizes follow the photo's long edge.
+ */
+
+// Bevel width as a share of the long edge
+const BEVEL = 0.004;
+// A cut bevel shows the board's white core
+const CORE = '#fbfaf6';
+// Core shading per window side, light from the top left
+const BEVEL_SHADE = { top: 0, left: 0.07, right: 0.18, bottom: 0.26 };
+
+export const getMatWidth = (border: BorderSettings, maxDim: number) =>
+  border.mat.enabled ? (border.mat.width / 100) * maxDim : 0;
+
+// Radius in px of a corner given as % of the rect's short edge
+export const getCornerRadius = (percent: number, rect: { width: number; height: number }) =>
+  Math.min(0.5, Math.max(0, percent / 100)) * Math.min(rect.width, rect.height);
+
+// Rounded canvases have transparent corners, which only PNG keeps
+export const hasRoundedCanvas = (border: BorderSettings) => border.canvasRadius > 0;
+
+const expandRect = (rect: Rect, by: number): Rect =>
+  ({ x: rect.x - by, y: rect.y - by, width: rect.width + 2 * by, height: rect.height + 2 * by });
+
+const addRoundedRect = (ctx: RenderContext, rect: Rect, radius: number) => {
+  if (radius > 0 && ctx.roundRect) ctx.roundRect(rect.x, rect.y, rect.width, rect.height, radius);
+  else ctx.rect(rect.x, rect.y, rect.width, rect.height);
+};
+
+// Ring of core around a window, each side shaded by its own mitred wedge
+const drawBevel = (ctx: RenderContext, window: Rect, width: number, radius: number) => {
+  const outer = expandRect(window, width);
+  const { x, y } = outer, right = x + outer.width, bottom = y + outer.height;
+  const d = Math.min(outer.width, outer.height) / 2;
+  const core = parseHex(CORE)!;
+  const black = { r: 0, g: 0, b: 0 };
+  const wedges: Array<[number, number[]]> = [
+    [BEVEL_SHADE.top, [x, y, right, y, right - d, y + d, x + d, y + d]],
+    [BEVEL_SHADE.bottom, [x, bottom, right, bottom, right - d, bottom - d, x + d, bottom - d]],
+    [BEVEL_SHADE.left, [x, y, x + d, y + d, x + d, bottom - d, x, bottom]],
+    [BEVEL_SHADE.right, [right, y, right - d, y + d, right - d, bottom - d, right, bottom]],
+  ];
+  ctx.save();
+  ctx.beginPath();
+  addRoundedRect(ctx, outer, radius > 0 ? radius + width : 0);
+  addRoundedRect(ctx, window, radius);
+  ctx.clip('evenodd');
+  wedges.forEach(([shade, points]) => {
+    ctx.fillStyle = toHex(mixColors(core, black, shade));
+    ctx.beginPath();
+    ctx.moveTo(points[0], points[1]);
+    for (let i = 2; i < points.length; i += 2) ctx.lineTo(points[i], points[i + 1]);
+    ctx.closePath();
+    ctx.fill();
+  });
+  ctx.restore();
+};
+
+/**
+ * Mat board around the photo, drawn before it: the board, the bevel of its window onto the
+ * photo and the bevel of the border's window onto the board. Returns the board, or null.
+ */
+export const drawMat = (ctx: RenderContext, image: Rect, border: BorderSettings, maxDim: number): Rect | null => {
+  const matW = getMatWidth(border, maxDim);
+  if (matW <= 0) return null;
+  const board = expandRect(image, matW);
+  ctx.save();
+  ctx.fillStyle = border.mat.color;
+  ctx.fillRect(board.x, board.y, board.width, board.height);
+  ctx.restore();
+  if (border.mat.bevel) {
+    const bevel = BEVEL * maxDim;
+    drawBevel(ctx, image, bevel, getCornerRadius(border.photoRadius, image));
+    drawBevel(ctx, board, bevel, 0);
+  }
+  return board;
+};
+
+// Shadow the border casts onto the mat through its window
+export const drawInsetShadow = (ctx: RenderContext, window: Rect, blur: number, offset: number) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(window.x, window.y, window.width, window.height);
+  ctx.clip();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+  ctx.shadowBlur = blur;
+  ctx.shadowOffsetX = offset;
+  ctx.shadowOffsetY = offset;
+  // A frame around the window: only its shadow falls inside the clip
+  const frame = expandRect(window, blur * 2 + offset);
+  ctx.beginPath();
+  ctx.rect(frame.x, frame.y, frame.width, frame.height);
+  ctx.rect(window.x, window.y, window.width, window.height);
+  ctx.fillStyle = '#000000';
+  ctx.fill('evenodd');
+  ctx.restore();
+};
+
+// Thin line just outside the photo edge
+export const drawKeyline = (ctx: RenderContext, image: Rect, border: BorderSettings, maxDim: number) => {
+  const width = (border.mat.keyline / 1000) * maxDim;
+  if (width <= 0) return;
+  ctx.save();
+  ctx.strokeStyle = border.mat.keylineColor;
+  ctx.lineWidth = width;
+  ctx.beginPath();
+  const radius = getCornerRadius(border.photoRadius, image);
+  addRoundedRect(ctx, expandRect(image, width / 2), radius > 0 ? radius + width / 2 : 0);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Frame as it was before the photo, to be put back in the photo's rounded-off corners
+export const snapshotCanvas = (canvas: RenderCanvas) => {
+  const copy = createCanvas(canvas.width, canvas.height);
+  getContext(copy)?.drawImage(canvas, 0, 0);
+  return copy;
+};
+
+export const restorePhotoCorners = (ctx: RenderContext, beneath: RenderCanvas, image: Rect, radius: number) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(image.x, image.y, image.width, image.height);
+  addRoundedRect(ctx, image, radius);
+  ctx.clip('evenodd');
+  ctx.drawImage(beneath, 0, 0);
+  ctx.restore();
+};
+
+// Clears everything outside the rounded canvas outline
+export const roundCanvasCorners = (ctx: RenderContext, width: number, height: number, radius: number) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.beginPath();
+  addRoundedRect(ctx, { x: 0, y: 0, width, height }, radius);
+  ctx.fillStyle = '#000000';
+  ctx.fill();
+  ctx.restore();
+};
@@ -0,0 +1,190 @@
+import { Color, PaletteColor, PaletteSettings } from '../types';
+import { toHex } from './color';
+
+/**
+ * Palette extraction.
+ * Pixels are sampled once per photo into OKLab, a perceptual space where straight-line
+ * distance tracks how different two colours look. Median cut seeds the clusters and
+ * k-means refines them, so the same photo and count always give the same swatches.
+ */
+
+export const PALETTE_MIN = 3;
+export const PALETTE_MAX = 10;
+
+// Long edge of the thumbnail palettes are sampled from
+const SAMPLE_EDGE = 64;
+const KMEANS_ITERATIONS = 8;
+// Below this OKLCh chroma a colour counts as grey when sorting by hue
+const GREY_CHROMA = 0.03;
+
+// -- Colour Space --
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const toGamma = (v: number) => {
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+};
+
+const rgbToOklab = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+};
+
+const oklabToRgb = (L: number, a: number, b: number): Color => {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+  return {
+    r: toGamma(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: toGamma(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: toGamma(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s),
+  };
+};
+
+/**
+ * Downsamples the photo and returns its opaque pixels as packed OKLab triples.
+ * Runs on the main thread at import; the result is what `extractPalette` clusters.
+ */
+export const samplePalette = (source: CanvasImageSource, width: number, height: number): Float32Array => {
+  const scale = Math.min(1, SAMPLE_EDGE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return new Float32Array(0);
+  ctx.drawImage(source, 0, 0, w, h);
+  const data = ctx.getImageData(0, 0, w, h).data;
+
+  const samples: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    samples.push(...rgbToOklab(data[i], data[i + 1], data[i + 2]));
+  }
+  return Float32Array.from(samples);
+};
+
+// -- Quantisation --
+type Vec3 = [number, number, number];
+
+const point = (samples: Float32Array, i: number): Vec3 => [samples[i * 3], samples[i * 3 + 1], samples[i * 3 + 2]];
+
+const distance2 = (p: Vec3, q: Vec3) => (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2;
+
+const mean = (samples: Float32Array, indices: number[]): Vec3 => {
+  const sum: Vec3 = [0, 0, 0];
+  indices.forEach(i => {
+    sum[0] += samples[i * 3];
+    sum[1] += samples[i * 3 + 1];
+    sum[2] += samples[i * 3 + 2];
+  });
+  return [sum[0] / indices.length, sum[1] / indices.length, sum[2] / indices.length];
+};
+
+// Splits the box with the widest spread at its median until there are `count` boxes
+const medianCut = (samples: Float32Array, count: number): Vec3[] => {
+  const boxes: number[][] = [Array.from({ length: samples.length / 3 }, (_, i) => i)];
+  while (boxes.length < count) {
+    let best = -1, bestAxis = 0, bestRange = 0;
+    boxes.forEach((box, b) => {
+      if (box.length < 2) return;
+      for (let axis = 0; axis < 3; axis++) {
+        let min = Infinity, max = -Infinity;
+        box.forEach(i => {
+          const v = samples[i * 3 + axis];
+          if (v < min) min = v;
+          if (v > max) max = v;
+        });
+        // Weight by population so large, varied regions are split first
+        const range = (max - min) * Math.sqrt(box.length);
+        if (range > bestRange) {
+          best = b; bestAxis = axis; bestRange = range;
+        }
+      }
+    });
+    if (best < 0) break;
+    const box = boxes[best].sort((i, j) => samples[i * 3 + bestAxis] - samples[j * 3 + bestAxis]);
+    const half = box.length >> 1;
+    boxes.splice(best, 1, box.slice(0, half), box.slice(half));
+  }
+  return boxes.map(box => mean(samples, box));
+};
+
+const quantize = (samples: Float32Array, count: number): PaletteColor[] => {
+  const total = samples.length / 3;
+  if (total === 0) return [];
+  let centroids = medianCut(samples, count);
+  let members: number[][] = [];
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    members = centroids.map(() => []);
+    for (let i = 0; i < total; i++) {
+      const p = point(samples, i);
+      let nearest = 0, nearestDist = Infinity;
+      centroids.forEach((c, k) => {
+        const d = distance2(p, c);
+        if (d < nearestDist) {
+          nearest = k; nearestDist = d;
+        }
+      });
+      members[nearest].push(i);
+    }
+    centroids = centroids.map((c, k) => (members[k].length ? mean(samples, members[k]) : c));
+  }
+
+  return centroids
+    .map((c, k) => ({ ...oklabToRgb(...c), weight: members[k].length / total }))
+    .filter(color => color.weight > 0);
+};
+
+const hueOf = ({ r, g, b }: Color) => {
+  const [L, a, bb] = rgbToOklab(r, g, b);
+  return { L, chroma: Math.hypot(a, bb), hue: (Math.atan2(bb, a) + 2 * Math.PI) % (2 * Math.PI) };
+};
+
+// Clustering is the expensive part, so results are kept per photo and count
+const cache = new WeakMap<Float32Array, Map<number, PaletteColor[]>>();
+
+/**
+ * Palette of `settings.count` colours (3..10), ordered by pixel share or around the hue wheel
+ * (greys last, light to dark).
+ */
+export const extractPalette = (samples: Float32Array, settings: Pick<PaletteSettings, 'count' | 'sort'>): PaletteColor[] => {
+  let byCount = cache.get(samples);
+  if (!byCount) {
+    byCount = new Map();
+    cache.set(samples, byCount);
+  }
+  const count = Math.min(PALETTE_MAX, Math.max(PALETTE_MIN, Math.round(settings.count)));
+  let colors = byCount.get(count);
+  if (!colors) {
+    colors = quantize(samples, count);
+    byCount.set(count, colors);
+  }
+
+  if (settings.sort === 'hue') {
+    return colors
+      .map(color => ({ color, ...hueOf(color) }))
+      .sort((p, q) => {
+        const pGrey = p.chroma < GREY_CHROMA, qGrey = q.chroma < GREY_CHROMA;
+        if (pGrey !== qGrey) return pGrey ? 1 : -1;
+        return pGrey ? q.L - p.L : p.hue - q.hue;
+      })
+      .map(({ color }) => color);
+  }
+  return [...colors].sort((p, q) => q.weight - p.weight);
+};
+
+export const formatColorLabel = (color: Color, format: 'hex' | 'rgb') =>
+  format === 'hex' ? toHex(color).toUpperCase() : `${color.r} ${color.g} ${color.b}`;
@@ -0,0 +1,62 @@
+import { RenderSettings, UserPreset } from '../types';
+import { normalizeSettings, SettingsInput } from './settings';
+
+/**
+ * User presets: saved looks that can be shared between machines as JSON files.
+ */
+
+const PRESET_FILE_KIND = 'lumina-frame/presets';
+const PRESET_FILE_VERSION = 1;
+
+interface PresetFile {
+  kind: typeof PRESET_FILE_KIND;
+  version: number;
+  presets: UserPreset[];
+}
+
+export const createPresetId = () => `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createUserPreset = (name: string, settings: RenderSettings): UserPreset => {
+  const id = createPresetId();
+  const { metadata, ...look } = settings;
+  return { id, name, settings: { ...look, preset: id } };
+};
+
+// Presets keep their own id; the photo's captions stay untouched
+export const applyUserPreset = (preset: UserPreset, current: RenderSettings): RenderSettings => ({
+  ...preset.settings,
+  preset: preset.id,
+  metadata: current.metadata,
+});
+
+// Normalises stored entries so presets saved by older versions keep working
+export const sanitizePresets = (raw: unknown): UserPreset[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((p): p is { id?: unknown; name: string; settings: SettingsInput } =>
+      !!p && typeof p.name === 'string' && !!p.settings && typeof p.settings === 'object')
+    .map(p => {
+      const id = typeof p.id === 'string' && p.id ? p.id : createPresetId();
+      const { metadata, ...look } = normalizeSettings(p.settings);
+      return { id, name: p.name, settings: { ...look, preset: id } };
+    });
+};
+
+export const serializePresets = (presets: UserPreset[]): string => {
+  const file: PresetFile = { kind: PRESET_FILE_KIND, version: PRESET_FILE_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses a shared preset file. Imported presets get fresh ids so they never
+ * overwrite presets that already exist locally.
+ */
+export const parsePresetFile = (text: string): UserPreset[] => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.kind === PRESET_FILE_KIND ? data.presets : null;
+  if (!list) throw new Error('Not a Lumina preset file');
+  return sanitizePresets(list).map(p => {
+    const id = createPresetId();
+    return { ...p, id, settings: { ...p.settings, preset: id } };
+  });
+};
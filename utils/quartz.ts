@@ -0,0 +1,229 @@
+import { QuartzColor, QuartzFormat, QuartzGlyphs, QuartzSettings, RenderContext } from '../types';
+import type { Rect } from './renderer';
+
+/**
+ * Quartz date back: the LED digits a date-back camera exposes into the corner of each frame.
+ * Glyphs are traced as paths, seven-segment or 5x7 dot-matrix, so no font is involved.
+ * All sizes follow the digit height.
+ */
+
+export const QUARTZ_FORMATS: QuartzFormat[] = ['ymd', 'mdy', 'dmy', 'time'];
+
+// Light the LEDs leave on the film: a wide bloom, a tight halo and a hot core
+export const QUARTZ_COLORS: Record<QuartzColor, { bloom: string; halo: string; core: string }> = {
+  orange: { bloom: '#ff4d00', halo: '#ff8a1f', core: '#ffd29a' },
+  red: { bloom: '#ff1200', halo: '#ff3a1a', core: '#ffa48a' },
+  yellow: { bloom: '#ffa200', halo: '#ffcc33', core: '#fff1b8' },
+};
+
+// Seven-segment proportions, in digit heights
+const SEGMENT = {
+  width: 0.56,
+  thickness: 0.14,
+  gap: 0.018, // between touching segments
+  slant: 0.1, // italic lean of the display
+  advance: 0.22, // space after a glyph
+};
+// Segments lit per character: a top, b top right, c bottom right, d bottom, e bottom left, f top left, g middle
+const SEGMENTS: Record<string, string> = {
+  0: 'abcdef', 1: 'bc', 2: 'abdeg', 3: 'abcdg', 4: 'bcfg',
+  5: 'acdfg', 6: 'acdefg', 7: 'abc', 8: 'abcdefg', 9: 'abcdfg',
+  '-': 'g',
+};
+
+// 5x7 dot-matrix rows; narrow marks are narrower bitmaps
+const MATRIX: Record<string, string[]> = {
+  0: ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  1: ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  2: ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  3: ['11111', '00010', '00100', '00010', '00001', '10001', '01110'],
+  4: ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  5: ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  6: ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  7: ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  8: ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  9: ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+  '-': ['00000', '00000', '00000', '11111', '00000', '00000', '00000'],
+  '/': ['00001', '00001', '00010', '00100', '01000', '10000', '10000'],
+  "'": ['1', '1', '0', '0', '0', '0', '0'],
+  ':': ['0', '1', '0', '0', '0', '1', '0'],
+  '.': ['0', '0', '0', '0', '0', '0', '1'],
+};
+// Dot diameter as a share of the dot pitch
+const DOT = 0.78;
+
+// Core of each LED relative to its full size
+const CORE_WEIGHT = 0.5;
+// Distance from the photo's edges, in digit heights
+const INSET = 1.1;
+
+const pad = (n: number) => `${n}`.padStart(2, '0');
+
+/**
+ * Date as a quartz back prints it. Only the last two digits of the year are shown,
+ * after `yearOffset` is added.
+ */
+export const formatQuartzDate = (date: Date, format: QuartzFormat, yearOffset = 0) => {
+  const year = `'${pad((((date.getFullYear() + yearOffset) % 100) + 100) % 100)}`;
+  const month = pad(date.getMonth() + 1), day = pad(date.getDate());
+  switch (format) {
+    case 'mdy': return `${month} ${day} ${year}`;
+    case 'dmy': return `${day} ${month} ${year}`;
+    case 'time': return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+    default: return `${year} ${month} ${day}`;
+  }
+};
+
+type Glyph = {
+  width: number; // in digit heights, spacing included
+  // Adds the glyph's LEDs to the current path at x, `weight` shrinking each one about its centre
+  trace: (ctx: RenderContext, x: number, h: number, weight: number) => void;
+};
+
+// Horizontal or vertical bar with pointed ends, from (x0, y0) to (x1, y1) along its centre line
+const addSegment = (ctx: RenderContext, x0: number, y0: number, x1: number, y1: number, t: number, skew: (x: number, y: number) => [number, number]) => {
+  const horizontal = y0 === y1;
+  const half = t / 2;
+  const points: Array<[number, number]> = horizontal
+    ? [[x0, y0], [x0 + half, y0 - half], [x1 - half, y0 - half], [x1, y0], [x1 - half, y0 + half], [x0 + half, y0 + half]]
+    : [[x0, y0], [x0 + half, y0 + half], [x0 + half, y1 - half], [x0, y1], [x0 - half, y1 - half], [x0 - half, y0 + half]];
+  points.forEach(([px, py], i) => {
+    const [sx, sy] = skew(px, py);
+    if (i === 0) ctx.moveTo(sx, sy);
+    else ctx.lineTo(sx, sy);
+  });
+  ctx.closePath();
+};
+
+const segmentGlyph = (char: string): Glyph => {
+  const { width, thickness, gap, slant, advance } = SEGMENT;
+  if (char === ' ') return { width: 0.36, trace: () => {} };
+  if (char === "'" || char === ':' || char === '.') {
+    return {
+      width: thickness + advance,
+      trace: (ctx, x, h, weight) => {
+        const t = thickness * h * weight;
+        const skew = (px: number, py: number): [number, number] => [px + slant * (h - py), py];
+        const cx = x + (thickness * h) / 2;
+        if (char === "'") addSegment(ctx, cx, gap * h, cx, 0.36 * h, t, skew);
+        const dots = char === ':' ? [0.3, 0.7] : char === '.' ? [1 - thickness / 2] : [];
+        dots.forEach(y => {
+          const [sx, sy] = skew(cx, y * h);
+          ctx.moveTo(sx + t / 2, sy);
+          ctx.arc(sx, sy, t / 2, 0, Math.PI * 2);
+        });
+      },
+    };
+  }
+  const lit = SEGMENTS[char];
+  if (!lit) return { width: width + advance, trace: () => {} };
+  return {
+    width: width + advance,
+    trace: (ctx, x, h, weight) => {
+      const t = thickness * h;
+      const skew = (px: number, py: number): [number, number] => [px + slant * (h - py), py];
+      const left = x + t / 2, right = x + width * h - t / 2;
+      const top = t / 2, middle = h / 2, bottom = h - t / 2;
+      const g = gap * h;
+      // Shrink towards the segment's centre line: thinner, and a little shorter at both ends
+      const tw = t * weight, inset = g + (t - tw) / 2;
+      const bars: Record<string, [number, number, number, number]> = {
+        a: [left + inset, top, right - inset, top],
+        g: [left + inset, middle, right - inset, middle],
+        d: [left + inset, bottom, right - inset, bottom],
+        f: [left, top + inset, left, middle - inset],
+        b: [right, top + inset, right, middle - inset],
+        e: [left, middle + inset, left, bottom - inset],
+        c: [right, middle + inset, right, bottom - inset],
+      };
+      for (const id of lit) addSegment(ctx, ...bars[id], tw, skew);
+    },
+  };
+};
+
+const matrixGlyph = (char: string): Glyph => {
+  const rows = MATRIX[char];
+  const pitch = 1 / 7;
+  // One empty column between glyphs; spaces and unknown marks take three
+  if (!rows) return { width: 4 * pitch, trace: () => {} };
+  return {
+    width: (rows[0].length + 1) * pitch,
+    trace: (ctx, x, h, weight) => {
+      const p = pitch * h, r = (DOT * weight * p) / 2;
+      rows.forEach((row, y) => {
+        for (let col = 0; col < row.length; col++) {
+          if (row[col] !== '1') continue;
+          const cx = x + (col + 0.5) * p, cy = (y + 0.5) * p;
+          ctx.moveTo(cx + r, cy);
+          ctx.arc(cx, cy, r, 0, Math.PI * 2);
+        }
+      });
+    },
+  };
+};
+
+const layoutGlyphs = (text: string, glyphs: QuartzGlyphs) => {
+  const chars = [...text.toUpperCase()].map(glyphs === 'matrix' ? matrixGlyph : segmentGlyph);
+  const last = chars[chars.length - 1];
+  // Trailing spacing is not part of the text
+  const trailing = !last ? 0 : glyphs === 'matrix' ? 1 / 7 : SEGMENT.advance;
+  const width = chars.reduce((sum, glyph) => sum + glyph.width, 0) - trailing;
+  return { chars, width: Math.max(0, width) };
+};
+
+/**
+ * Exposes the date onto the photo in the chosen corner, turned by the rotation.
+ * Drawn in screen mode, so it brightens the photo the way the LEDs' light brightened the film.
+ */
+export const drawQuartzDate = (ctx: RenderContext, text: string, quartz: QuartzSettings, image: Rect) => {
+  const h = (quartz.size / 100) * Math.max(image.width, image.height);
+  const { chars, width } = layoutGlyphs(text.trim(), quartz.glyphs);
+  if (!(h > 0) || width <= 0) return;
+  const w = width * h;
+  const angle = (quartz.rotation * Math.PI) / 180;
+  // Box the turned text takes up, kept INSET digit heights from the photo's edges
+  const boxW = Math.abs(w * Math.cos(angle)) + Math.abs(h * Math.sin(angle));
+  const boxH = Math.abs(w * Math.sin(angle)) + Math.abs(h * Math.cos(angle));
+  const inset = INSET * h;
+  const [row, col] = quartz.corner.split('-');
+  const cx = col === 'left' ? image.x + inset + boxW / 2 : image.x + image.width - inset - boxW / 2;
+  const cy = row === 'top' ? image.y + inset + boxH / 2 : image.y + image.height - inset - boxH / 2;
+
+  const trace = (weight: number) => {
+    ctx.beginPath();
+    let x = 0;
+    chars.forEach(glyph => {
+      glyph.trace(ctx, x * h, h, weight);
+      x += glyph.width;
+    });
+  };
+
+  const colors = QUARTZ_COLORS[quartz.color];
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(image.x, image.y, image.width, image.height);
+  ctx.clip();
+  ctx.translate(cx, cy);
+  ctx.rotate(angle);
+  ctx.translate(-w / 2, -h / 2);
+  ctx.globalCompositeOperation = 'screen';
+
+  // Bloom: light scattered in the emulsion around the digits
+  trace(1);
+  ctx.filter = `blur(${h * 0.35}px)`;
+  ctx.globalAlpha = 0.55;
+  ctx.fillStyle = colors.bloom;
+  ctx.fill();
+  // Halo: the LEDs themselves, slightly out of focus
+  ctx.filter = `blur(${h * 0.04}px)`;
+  ctx.globalAlpha = 0.95;
+  ctx.fillStyle = colors.halo;
+  ctx.fill();
+  // Core: the brightest centre of each LED
+  trace(CORE_WEIGHT);
+  ctx.filter = `blur(${h * 0.02}px)`;
+  ctx.globalAlpha = 0.8;
+  ctx.fillStyle = colors.core;
+  ctx.fill();
+  ctx.restore();
+};
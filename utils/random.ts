@@ -0,0 +1,26 @@
+/**
+ * Seeded pseudo-random numbers, so procedural effects render identically
+ * for preview, export and every later re-export of the same settings.
+ */
+
+// mulberry32: small, fast and good enough for visual noise
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Stable 32-bit seed from a string (FNV-1a)
+export const hashSeed = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
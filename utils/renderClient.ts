@@ -0,0 +1,204 @@
+import { FrameAssets, FrameImage, RenderSettings, RenderWorkerRequest, RenderWorkerResponse } from '../types';
+import { renderFrame, createCanvas } from './renderer';
+import { getSourceSize } from './crop';
+
+/**
+ * Main-thread handle on the render worker.
+ * "Latest wins": starting a render resolves every earlier one still in flight with null,
+ * so callers simply ignore null results. A frame that fails to draw rejects.
+ * Renders are proxies: the source is downscaled so its long edge fits `maxEdge`.
+ */
+export interface RenderClient {
+  render: (id: number, frame: FrameImage, settings: RenderSettings, maxEdge: number) => Promise<ImageBitmap | null>;
+  // Drops cached sources of items no longer in the queue
+  retain: (ids: number[]) => void;
+  dispose: () => void;
+}
+
+interface PendingJob {
+  jobId: number;
+  resolve: (bitmap: ImageBitmap | null) => void;
+  reject: (err: Error) => void;
+}
+
+interface ProxySource {
+  source: CanvasImageSource;
+  scale: number;
+  maxEdge: number;
+}
+
+const supportsWorker = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// Measured on the source, so cropping does not change the proxy and force a new upload
+export const getProxyScale = (frame: FrameImage, maxEdge: number) => {
+  const { width, height } = getSourceSize(frame.source);
+  return Math.min(1, maxEdge / Math.max(width, height));
+};
+
+// Same frame at a reduced size; the renderer scales its absolute constants by `scale`.
+// Frames that are already reduced (compositions are arranged at preview size) keep their own scale.
+const toProxyFrame = (frame: FrameImage, scale: number): FrameImage => ({
+  source: frame.source,
+  assets: frame.assets,
+  crop: frame.crop,
+  width: Math.round(frame.width * scale),
+  height: Math.round(frame.height * scale),
+  scale: scale * (frame.scale ?? 1),
+  colors: frame.colors,
+  seed: frame.seed,
+  watermark: frame.watermark,
+});
+
+// Fallback for browsers without OffscreenCanvas: same renderer, main thread
+const createInlineClient = (): RenderClient => {
+  let latest = 0;
+  return {
+    render: async (_id, frame, settings, maxEdge) => {
+      const jobId = ++latest;
+      const canvas = createCanvas(1, 1);
+      renderFrame(canvas, toProxyFrame(frame, getProxyScale(frame, maxEdge)), settings);
+      const bitmap = await createImageBitmap(canvas);
+      if (jobId !== latest) {
+        bitmap.close();
+        return null;
+      }
+      return bitmap;
+    },
+    retain: () => {},
+    dispose: () => {},
+  };
+};
+
+export const createRenderClient = (): RenderClient => {
+  if (!supportsWorker()) return createInlineClient();
+
+  const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+  const uploads = new Map<number, Promise<ProxySource>>();
+  // Assets as last sent; the worker keeps its own copies
+  const sentAssets: FrameAssets = {};
+  let nextJobId = 0;
+  let pending: PendingJob | null = null;
+
+  const post = (msg: RenderWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+
+  worker.addEventListener('message', (e: MessageEvent<RenderWorkerResponse>) => {
+    const msg = e.data;
+    const isCurrent = pending?.jobId === msg.jobId;
+    if (msg.type === 'rendered' && !isCurrent) {
+      msg.bitmap.close();
+      return;
+    }
+    if (!isCurrent || !pending) return;
+    if (msg.type === 'failed') pending.reject(new Error(msg.reason));
+    else pending.resolve(msg.type === 'rendered' ? msg.bitmap : null);
+    pending = null;
+  });
+
+  // An error the worker did not catch leaves no response behind; settle the job so the preview moves on
+  worker.addEventListener('error', () => {
+    pending?.resolve(null);
+    pending = null;
+  });
+
+  // Sources are downscaled once per proxy size and handed over to the worker.
+  // A new source under the same id (a rearranged composition) is uploaded again.
+  const upload = async (id: number, frame: FrameImage, maxEdge: number) => {
+    const existing = uploads.get(id);
+    if (existing) {
+      const sent = await existing;
+      if (sent.maxEdge === maxEdge && sent.source === frame.source) return existing;
+    }
+
+    const scale = getProxyScale(frame, maxEdge);
+    const size = getSourceSize(frame.source);
+    const task = createImageBitmap(frame.source as ImageBitmapSource, {
+      resizeWidth: Math.round(size.width * scale),
+      resizeHeight: Math.round(size.height * scale),
+      resizeQuality: 'high',
+    }).then(bitmap => {
+      post({ type: 'load', id, bitmap }, [bitmap]);
+      return { source: frame.source, scale, maxEdge };
+    });
+    uploads.set(id, task);
+    // A failed upload is forgotten, so the next render tries again instead of reusing the rejection
+    task.catch(() => {
+      if (uploads.get(id) === task) uploads.delete(id);
+    });
+    return task;
+  };
+
+  // Shared assets change rarely, so they are copied over only when replaced
+  const copyAssets = async (assets: FrameAssets) => {
+    if (assets.luts !== sentAssets.luts) {
+      sentAssets.luts = assets.luts;
+      post({ type: 'luts', luts: assets.luts ?? {} });
+    }
+    const keys = ['logo', 'watermark'] as const;
+    for (const key of keys) {
+      const asset = assets[key];
+      if (asset === sentAssets[key]) continue;
+      const bitmap = asset ? await createImageBitmap(asset) : null;
+      post({ type: 'asset', key, bitmap }, bitmap ? [bitmap] : []);
+      sentAssets[key] = asset;
+    }
+  };
+
+  // Syncs run one after another, and every render waits for the one it started: a render never
+  // reaches the worker before the assets it refers to, even when an earlier sync is still copying
+  let assetSync: Promise<void> = Promise.resolve();
+  const syncAssets = (assets: FrameAssets = {}) => {
+    assetSync = assetSync.catch(() => {}).then(() => copyAssets(assets));
+    return assetSync;
+  };
+
+  return {
+    render: async (id, frame, settings, maxEdge) => {
+      pending?.resolve(null);
+      const job: PendingJob = { jobId: ++nextJobId, resolve: () => {}, reject: () => {} };
+      const result = new Promise<ImageBitmap | null>((resolve, reject) => {
+        job.resolve = resolve;
+        job.reject = reject;
+      });
+      pending = job;
+
+      let scale: number;
+      try {
+        [{ scale }] = await Promise.all([upload(id, frame, maxEdge), syncAssets(frame.assets)]);
+      } catch {
+        // Nothing to show for this job; a later render tries the upload again
+        if (pending === job) pending = null;
+        job.resolve(null);
+        return result;
+      }
+      // Superseded while the source was being decoded
+      if (pending !== job) return null;
+
+      const proxy = toProxyFrame(frame, scale);
+      post({
+        type: 'render',
+        jobId: job.jobId,
+        id,
+        width: proxy.width,
+        height: proxy.height,
+        scale: proxy.scale ?? scale,
+        colors: frame.colors,
+        seed: frame.seed ?? 0,
+        crop: frame.crop ?? null,
+        watermark: frame.watermark ?? null,
+        settings,
+      });
+      return result;
+    },
+    retain: (ids) => {
+      uploads.forEach((_, id) => {
+        if (!ids.includes(id)) uploads.delete(id);
+      });
+      post({ type: 'retain', ids });
+    },
+    dispose: () => {
+      pending?.resolve(null);
+      pending = null;
+      worker.terminate();
+    },
+  };
+};
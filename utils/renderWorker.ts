@@ -0,0 +1,77 @@
+import { FrameAssets, RenderWorkerRequest, RenderWorkerResponse } from '../types';
+import { renderFrame } from './renderer';
+
+/**
+ * Render worker.
+ * Keeps decoded sources by queue item id and draws frames into an OffscreenCanvas.
+ * Only the most recent render request is honoured; anything it supersedes is skipped.
+ */
+
+const scope = self as unknown as Worker;
+const sources = new Map<number, ImageBitmap>();
+const assets: FrameAssets = {};
+
+let pending: Extract<RenderWorkerRequest, { type: 'render' }> | null = null;
+let scheduled = false;
+
+const post = (msg: RenderWorkerResponse, transfer: Transferable[] = []) => scope.postMessage(msg, transfer);
+
+const flush = () => {
+  scheduled = false;
+  const job = pending;
+  pending = null;
+  if (!job) return;
+
+  const source = sources.get(job.id);
+  if (!source) {
+    post({ type: 'skipped', jobId: job.jobId });
+    return;
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    const canvas = new OffscreenCanvas(1, 1);
+    renderFrame(canvas, { source, assets, width: job.width, height: job.height, scale: job.scale, colors: job.colors, seed: job.seed, crop: job.crop ?? undefined, watermark: job.watermark ?? undefined }, job.settings);
+    bitmap = canvas.transferToImageBitmap();
+  } catch (err) {
+    // Answer anyway, so the caller's job settles instead of waiting forever
+    post({ type: 'failed', jobId: job.jobId, reason: err instanceof Error ? err.message : String(err) });
+    return;
+  }
+  post({ type: 'rendered', jobId: job.jobId, bitmap }, [bitmap]);
+};
+
+scope.addEventListener('message', (e: MessageEvent<RenderWorkerRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'load':
+      sources.get(msg.id)?.close();
+      sources.set(msg.id, msg.bitmap);
+      break;
+    case 'luts':
+      assets.luts = msg.luts;
+      break;
+    case 'asset':
+      assets[msg.key]?.close();
+      if (msg.bitmap) assets[msg.key] = msg.bitmap;
+      else delete assets[msg.key];
+      break;
+    case 'retain':
+      sources.forEach((bitmap, id) => {
+        if (!msg.ids.includes(id)) {
+          bitmap.close();
+          sources.delete(id);
+        }
+      });
+      break;
+    case 'render':
+      if (pending) post({ type: 'skipped', jobId: pending.jobId });
+      pending = msg;
+      // Yield once so a burst of slider updates collapses into a single render
+      if (!scheduled) {
+        scheduled = true;
+        setTimeout(flush, 0);
+      }
+      break;
+  }
+});
@@ -0,0 +1,234 @@
+import { describe, expect, it } from 'vitest';
+import { BorderSettings, Color, LayoutStyle, RenderSettings } from '../types';
+import { DEFAULT_SETTINGS } from './settings';
+import { BUILTIN_STYLES } from './styles';
+import { computeLayout, getCalculatedMargins, getTargetMargins, getTargetPixelSize } from './renderer';
+
+// A 3:2 landscape photo: long edge 3000, so 1% of the long edge is 30 px
+const W = 3000, H = 2000;
+const COLORS: Color[] = [
+  { r: 200, g: 40, b: 40 },
+  { r: 40, g: 200, b: 40 },
+  { r: 40, g: 40, b: 200 },
+];
+
+const withSettings = (patch: {
+  preset?: string;
+  border?: Partial<BorderSettings>;
+  markings?: Partial<RenderSettings['markings']>;
+  showMetadata?: boolean;
+}): RenderSettings => {
+  const preset = patch.preset ?? DEFAULT_SETTINGS.preset;
+  return {
+    ...DEFAULT_SETTINGS,
+    preset,
+    style: BUILTIN_STYLES[preset],
+    border: { ...DEFAULT_SETTINGS.border, ...patch.border },
+    markings: { ...DEFAULT_SETTINGS.markings, ...patch.markings },
+    metadata: { ...DEFAULT_SETTINGS.metadata, showMetadata: patch.showMetadata ?? true },
+  };
+};
+
+describe('getCalculatedMargins', () => {
+  it('applies the simple scale to every side', () => {
+    const m = getCalculatedMargins(W, H, { ...DEFAULT_SETTINGS.border, mode: 'simple', scale: 10 });
+    expect(m).toEqual({ top: 300, bottom: 300, left: 300, right: 300 });
+  });
+
+  it('takes each advanced side from its own percentage', () => {
+    const m = getCalculatedMargins(W, H, {
+      ...DEFAULT_SETTINGS.border,
+      mode: 'advanced',
+      margins: { top: 5, bottom: 15, left: 2, right: 8 },
+    });
+    expect(m).toEqual({ top: 150, bottom: 450, left: 60, right: 240 });
+  });
+
+  it('measures from the long edge of portrait photos too', () => {
+    const m = getCalculatedMargins(H, W, { ...DEFAULT_SETTINGS.border, mode: 'simple', scale: 10 });
+    expect(m.top).toBe(300);
+  });
+
+  it('widens every side by the mat', () => {
+    const border = { ...DEFAULT_SETTINGS.border, mode: 'simple' as const, scale: 10, mat: { ...DEFAULT_SETTINGS.border.mat, enabled: true, width: 4 } };
+    expect(getCalculatedMargins(W, H, border)).toEqual({ top: 420, bottom: 420, left: 420, right: 420 });
+  });
+});
+
+describe('getTargetMargins', () => {
+  const target = { ...DEFAULT_SETTINGS.border.target, width: 4, height: 5, unit: 'ratio' as const, minBorder: 5 };
+
+  it('pads the short dimension to reach the target ratio', () => {
+    const m = getTargetMargins(W, H, 0, target);
+    const canvasW = W + m.left + m.right, canvasH = H + m.top + m.bottom;
+    expect(canvasW / canvasH).toBeCloseTo(4 / 5, 10);
+    expect(m.left).toBeCloseTo(150, 10);
+    expect(m.top).toBeCloseTo((3300 * 5 / 4 - H) / 2, 10);
+  });
+
+  it('keeps the minimum border on every side', () => {
+    const m = getTargetMargins(W, H, 0, { ...target, width: 3, height: 2 });
+    expect(Math.min(m.top, m.bottom, m.left, m.right)).toBeCloseTo(150, 10);
+  });
+
+  it('centres the photo above the extra bottom space', () => {
+    const m = getTargetMargins(W, H, 180, target);
+    expect(m.top).toBeCloseTo(m.bottom, 10);
+    expect((W + m.left + m.right) / (H + m.top + m.bottom + 180)).toBeCloseTo(4 / 5, 10);
+  });
+
+  it('swaps the target to follow the photo when matching orientation', () => {
+    const m = getTargetMargins(W, H, 0, { ...target, matchOrientation: true });
+    expect((W + m.left + m.right) / (H + m.top + m.bottom)).toBeCloseTo(5 / 4, 10);
+  });
+
+  it('adds the mat to the minimum border', () => {
+    const m = getTargetMargins(W, H, 0, { ...target, width: 3, height: 2 }, 120);
+    expect(Math.min(m.top, m.bottom, m.left, m.right)).toBeCloseTo(270, 10);
+  });
+
+  it('fills an exact canvas size, centring the photo above the extra space', () => {
+    const m = getTargetMargins(2701, 1801, 161.3, target, 0, { width: 3000, height: 2400 });
+    expect(2701 + m.left + m.right).toBe(3000);
+    expect(1801 + m.top + m.bottom + 161.3).toBeCloseTo(2400, 9);
+    expect(m.top).toBeCloseTo(m.bottom, 10);
+  });
+
+  it('converts physical targets to pixels at the dpi', () => {
+    expect(getTargetPixelSize(W, H, { ...target, unit: 'in', width: 10, height: 8, dpi: 300 })).toEqual({ width: 3000, height: 2400 });
+    expect(getTargetPixelSize(W, H, { ...target, unit: 'mm', width: 254, height: 203.2, dpi: 100 })).toEqual({ width: 1000, height: 800 });
+    expect(getTargetPixelSize(W, H, target)).toBeNull();
+  });
+});
+
+describe('computeLayout', () => {
+  const presets: Array<[string, LayoutStyle]> = [
+    ['simple-white', 'gallery'],
+    ['simple-black', 'gallery'],
+    ['polaroid', 'polaroid'],
+    ['film-negative', 'negative'],
+    ['cinema', 'cinema'],
+  ];
+
+  it.each(presets)('places the photo inside the canvas for %s', preset => {
+    const layout = computeLayout(W, H, [], withSettings({ preset }));
+    const { image, margins: m } = layout;
+    expect(image).toEqual({ x: m.left, y: m.top, width: W, height: H });
+    expect(layout.canvasWidth).toBeCloseTo(W + m.left + m.right, 10);
+    expect(layout.canvasHeight).toBeGreaterThanOrEqual(H + m.top + m.bottom);
+  });
+
+  it('adds a caption band under gallery frames', () => {
+    const layout = computeLayout(W, H, [], withSettings({ preset: 'simple-white' }));
+    expect(layout.canvasWidth).toBe(3600);
+    expect(layout.canvasHeight).toBe(2000 + 600 + 180);
+    expect(layout.textY).toBe(300 + 2000 + 150);
+  });
+
+  it('drops the caption band when nothing is printed', () => {
+    const layout = computeLayout(W, H, [], withSettings({ preset: 'simple-white', showMetadata: false }));
+    expect(layout.canvasHeight).toBe(2600);
+  });
+
+  it('gives polaroids a wide chin and centres text in it', () => {
+    const layout = computeLayout(W, H, [], withSettings({ preset: 'polaroid' }));
+    expect(layout.canvasWidth).toBe(3600);
+    expect(layout.canvasHeight).toBe(2000 + 600 + 600);
+    expect(layout.textY).toBe(2300 + 900 / 2);
+  });
+
+  it('keeps cinema frames to the plain border', () => {
+    const layout = computeLayout(W, H, [], withSettings({ preset: 'cinema' }));
+    expect(layout.canvasWidth).toBe(3600);
+    expect(layout.canvasHeight).toBe(2600);
+  });
+
+  it('sizes simple negatives from the film and captions below it', () => {
+    const layout = computeLayout(W, H, [], withSettings({ preset: 'film-negative' }));
+    const mm = H / 24;
+    expect(layout.margins.top).toBeCloseTo(5.5 * mm + 300, 10);
+    expect(layout.margins.left).toBeCloseTo(mm + 300, 10);
+    const filmBottom = layout.image.y + H + 5.5 * mm;
+    expect(layout.textY).toBeCloseTo((filmBottom + layout.canvasHeight) / 2, 10);
+  });
+
+  it('never gives negatives a mat', () => {
+    const mat = { ...DEFAULT_SETTINGS.border.mat, enabled: true, width: 4 };
+    const plain = computeLayout(W, H, [], withSettings({ preset: 'film-negative', border: { mode: 'advanced' } }));
+    const matted = computeLayout(W, H, [], withSettings({ preset: 'film-negative', border: { mode: 'advanced', mat } }));
+    expect(matted.margins).toEqual(plain.margins);
+  });
+
+  it('leaves advanced margins exactly as set', () => {
+    const layout = computeLayout(W, H, [], withSettings({
+      border: { mode: 'advanced', margins: { top: 5, bottom: 15, left: 2, right: 8 } },
+    }));
+    expect(layout.canvasWidth).toBe(W + 300);
+    expect(layout.canvasHeight).toBe(H + 600);
+    expect(layout.textY).toBe(150 + H + 225);
+  });
+
+  it('reaches the target ratio including the caption band', () => {
+    const layout = computeLayout(W, H, [], withSettings({ border: { mode: 'target' } }));
+    expect(layout.canvasWidth / layout.canvasHeight).toBeCloseTo(4 / 5, 10);
+  });
+
+  it('renders print targets at exactly their pixel size', () => {
+    const settings = withSettings({ border: { mode: 'target', target: { ...DEFAULT_SETTINGS.border.target, unit: 'in', width: 10, height: 8, dpi: 300 } } });
+    const print = getTargetPixelSize(W, H, settings.border.target)!;
+    const scale = print.width / computeLayout(W, H, [], settings).canvasWidth;
+    const layout = computeLayout(Math.round(W * scale), Math.round(H * scale), [], settings, print);
+    expect(Math.round(layout.canvasWidth)).toBe(3000);
+    expect(Math.round(layout.canvasHeight)).toBe(2400);
+    expect(Math.abs(layout.canvasHeight - 2400)).toBeLessThan(1e-6);
+  });
+
+  it('scales the base font with the canvas', () => {
+    const layout = computeLayout(W, H, [], withSettings({}));
+    expect(layout.baseFontSize).toBeCloseTo(3600 * 0.016, 10);
+  });
+
+  describe('palette', () => {
+    const settings = withSettings({ markings: { palette: true } });
+
+    it('places one swatch per colour, centred on the canvas', () => {
+      const layout = computeLayout(W, H, COLORS, settings);
+      expect(layout.palette).toHaveLength(COLORS.length);
+      const xs = layout.palette.map(swatch => swatch.x);
+      expect((xs[0] + xs[xs.length - 1]) / 2).toBeCloseTo(layout.canvasWidth / 2, 10);
+      expect(xs[1] - xs[0]).toBeCloseTo(xs[2] - xs[1], 10);
+      layout.palette.forEach((swatch, i) => expect(swatch.color).toBe(COLORS[i]));
+    });
+
+    it('sits above the captions and pushes them down', () => {
+      const plain = computeLayout(W, H, COLORS, withSettings({}));
+      const layout = computeLayout(W, H, COLORS, settings);
+      expect(layout.textY).toBeCloseTo(plain.textY + layout.baseFontSize, 10);
+      layout.palette.forEach(swatch => {
+        expect(swatch.y).toBeLessThan(layout.textY);
+        expect(swatch.y).toBeGreaterThan(layout.image.y + H);
+        expect(swatch.radius).toBeCloseTo(layout.baseFontSize * 0.6, 10);
+        expect(swatch.label).toBeNull();
+      });
+    });
+
+    it('lifts the row and spaces it out for labels', () => {
+      const plain = computeLayout(W, H, COLORS, settings);
+      const labelled = computeLayout(W, H, COLORS, { ...settings, palette: { ...settings.palette, labels: 'hex' } });
+      expect(labelled.palette[0].label).toBe('#C82828');
+      expect(labelled.palette[0].y).toBeLessThan(plain.palette[0].y);
+      expect(labelled.palette[1].x - labelled.palette[0].x).toBeGreaterThanOrEqual(plain.palette[1].x - plain.palette[0].x);
+    });
+
+    it('starts at the photo edge on polaroids', () => {
+      const layout = computeLayout(W, H, COLORS, withSettings({ preset: 'polaroid', markings: { palette: true } }));
+      const gap = layout.palette[1].x - layout.palette[0].x;
+      expect(layout.palette[0].x).toBeCloseTo(layout.image.x + gap / 2, 10);
+    });
+
+    it('is left off cinema frames', () => {
+      const layout = computeLayout(W, H, COLORS, withSettings({ preset: 'cinema', markings: { palette: true } }));
+      expect(layout.palette).toHaveLength(0);
+    });
+  });
+});
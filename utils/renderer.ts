@@ -0,0 +1,429 @@
+import { Color, FrameImage, Margins, BorderSettings, TargetCanvas, RenderCanvas, RenderContext, RenderSettings } from '../types';
+import { formatColorLabel } from './palette';
+import { drawBackground, resolveFrameColors } from './backgrounds';
+import { applyGrain } from './grain';
+import { drawLightLeak } from './leaks';
+import { gradePhoto, resolveLut } from './luts';
+import { drawGlow } from './glow';
+import { applyLens, hasLensEffect } from './lens';
+import { cropSource } from './crop';
+import { drawNegativeStrip, getStripBounds, getStripMargins } from './filmStrip';
+import { drawWatermark } from './watermark';
+import { drawQuartzDate } from './quartz';
+import { drawInsetShadow, drawKeyline, drawMat, getCornerRadius, getMatWidth, restorePhotoCorners, roundCanvasCorners, snapshotCanvas } from './mat';
+import { CaptionMark, layoutCaptions } from './captions';
+import { detectBrand, drawBrandMark, measureBrandMark } from './logos';
+
+/**
+ * Frame renderer.
+ * Pure function of (image, settings): no React, no DOM lookups beyond creating scratch canvases,
+ * so it runs the same on an HTMLCanvasElement and an OffscreenCanvas.
+ */
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PaletteSwatch {
+  x: number;
+  y: number;
+  radius: number; // half the swatch size, whatever the shape
+  color: Color;
+  label: string | null;
+}
+
+export interface FrameLayout {
+  canvasWidth: number;
+  canvasHeight: number;
+  image: Rect;
+  margins: Margins;
+  baseFontSize: number;
+  // Vertical centre of the caption block
+  textY: number;
+  palette: PaletteSwatch[];
+}
+
+// Scratch canvases follow the target: OffscreenCanvas inside workers, DOM canvas otherwise
+export const createCanvas = (width: number, height: number): RenderCanvas => {
+  if (typeof document === 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const getContext = (canvas: RenderCanvas): RenderContext | null =>
+  canvas.getContext('2d') as RenderContext | null;
+
+// -- Margins --
+// The mat sits between the border and the photo, so it widens every side
+export const getCalculatedMargins = (width: number, height: number, border: BorderSettings): Margins => {
+  const maxDim = Math.max(width, height);
+  const mat = getMatWidth(border, maxDim);
+  if (border.mode === 'simple') {
+    const px = (border.scale / 100) * maxDim + mat;
+    return { top: px, bottom: px, left: px, right: px };
+  }
+  return {
+    top: (border.margins.top / 100) * maxDim + mat,
+    bottom: (border.margins.bottom / 100) * maxDim + mat,
+    left: (border.margins.left / 100) * maxDim + mat,
+    right: (border.margins.right / 100) * maxDim + mat,
+  };
+};
+
+// -- Target Canvas --
+const MM_PER_INCH = 25.4;
+
+// Target width/height, swapped to follow the photo when requested
+const getTargetAspect = (width: number, height: number, target: TargetCanvas) => {
+  const swap = target.matchOrientation && (target.width > target.height) !== (width > height);
+  return swap ? { w: target.height, h: target.width } : { w: target.width, h: target.height };
+};
+
+// Pixel size of a physical print target; null for plain ratios
+export const getTargetPixelSize = (width: number, height: number, target: TargetCanvas) => {
+  if (target.unit === 'ratio') return null;
+  const { w, h } = getTargetAspect(width, height, target);
+  if (!(w > 0 && h > 0 && target.dpi > 0)) return null;
+  const inches = target.unit === 'mm' ? 1 / MM_PER_INCH : 1;
+  return { width: Math.round(w * inches * target.dpi), height: Math.round(h * inches * target.dpi) };
+};
+
+/**
+ * Margins that give the canvas the target aspect ratio while keeping at least
+ * `minBorder` (plus the mat, `mat` px) on every side. The photo is centred in the space
+ * above `extraBottom` (polaroid chin / caption band), which is added on top by computeLayout.
+ * With `canvas` given (a print export's exact pixel size), the margins fill that size instead.
+ */
+export const getTargetMargins = (
+  width: number,
+  height: number,
+  extraBottom: number,
+  target: TargetCanvas,
+  mat = 0,
+  canvas?: { width: number; height: number },
+): Margins => {
+  const { w, h } = getTargetAspect(width, height, target);
+  const ratio = w > 0 && h > 0 ? w / h : width / height;
+  const min = (target.minBorder / 100) * Math.max(width, height) + mat;
+
+  const needW = width + 2 * min;
+  const needH = height + 2 * min + extraBottom;
+  const canvasW = canvas ? canvas.width : needW / needH > ratio ? needW : needH * ratio;
+  const canvasH = canvas ? canvas.height : canvasW / ratio;
+
+  const side = (canvasW - width) / 2;
+  const vertical = (canvasH - extraBottom - height) / 2;
+  return { top: vertical, bottom: vertical, left: side, right: side };
+};
+
+// -- Layout --
+// Palette label size relative to the base font size
+const PALETTE_LABEL_SIZE = 0.5;
+
+export const computeLayout = (
+  width: number,
+  height: number,
+  colors: Color[],
+  settings: RenderSettings,
+  canvasSize?: { width: number; height: number },
+): FrameLayout => {
+  const { border, markings, metadata } = settings;
+  const { layout } = settings.style;
+  const maxDim = Math.max(width, height);
+
+  // Auto-expand bottom for text unless the user controls margins manually (advanced mode)
+  let extraBottom = 0;
+  if (border.mode !== 'advanced') {
+    if (layout === 'polaroid') {
+      // Polaroid needs extra bottom; top/sides stay uniform
+      extraBottom = maxDim * 0.2;
+    } else if (metadata.showMetadata || markings.palette || markings.signature) {
+      // For gallery, add space for text if enabled
+      if (layout !== 'cinema' && layout !== 'negative') {
+        extraBottom = maxDim * 0.06;
+      }
+    }
+  }
+
+  // 1. Margin Calculation (Applied to ALL presets)
+  // Simple negatives are sized from the film itself: the scale is scanner background past the film edge.
+  // Negatives have no mat.
+  const frameBorder = layout === 'negative' ? { ...border, mat: { ...border.mat, enabled: false } } : border;
+  const m = border.mode === 'target'
+    ? getTargetMargins(width, height, extraBottom, border.target, getMatWidth(frameBorder, maxDim), canvasSize)
+    : border.mode === 'simple' && layout === 'negative'
+      ? getStripMargins(width, height, (border.scale / 100) * maxDim)
+      : getCalculatedMargins(width, height, frameBorder);
+
+  // 2. Layout Strategies
+  // All presets respect the calculated margins 'm' to allow geometry adjustment.
+  const canvasWidth = width + m.left + m.right;
+  const canvasHeight = height + m.top + m.bottom + extraBottom;
+  const image = { x: m.left, y: m.top, width, height };
+
+  const baseFontSize = Math.max(canvasWidth, canvasHeight) * 0.016;
+
+  // Centre text in the bottom margin area; polaroid aims for the middle of its wide bottom
+  let textY = image.y + height + (m.bottom / 2);
+  const strip = layout === 'negative' ? getStripBounds(image) : null;
+  if (layout === 'polaroid') {
+    const bottomSpace = canvasHeight - (image.y + height);
+    textY = image.y + height + (bottomSpace / 2);
+  } else if (strip) {
+    // Negatives caption the scanner background below the film, not the rebate
+    textY = (Math.min(strip.bottom, canvasHeight) + canvasHeight) / 2;
+  }
+
+  const palette: PaletteSwatch[] = [];
+  if (markings.palette && colors.length > 0 && layout !== 'cinema') {
+    const { labels } = settings.palette;
+    const circleSize = baseFontSize * 1.2 * settings.palette.size;
+    const labelTexts = colors.map(color => (labels === 'none' ? null : formatColorLabel(color, labels)));
+    // Labels are monospaced, so their width follows from the character count
+    const labelWidth = Math.max(0, ...labelTexts.map(text => (text ? text.length * PALETTE_LABEL_SIZE * baseFontSize * 0.6 : 0)));
+    const gap = Math.max(circleSize * 1.5, labelWidth * 1.2);
+    // Labels hang below the swatches, so the row moves up to keep clear of the captions
+    const labelSpace = labels === 'none' ? 0 : PALETTE_LABEL_SIZE * baseFontSize * 1.6;
+    const paletteY = textY - (baseFontSize * 2.5) - labelSpace - (circleSize - baseFontSize * 1.2) / 2;
+    const startX = layout === 'polaroid'
+      ? image.x + (gap / 2)
+      : (canvasWidth / 2) - ((colors.length * gap) / 2) + (gap / 2);
+    colors.forEach((color, i) => {
+      palette.push({ x: startX + (i * gap), y: paletteY, radius: circleSize / 2, color, label: labelTexts[i] });
+    });
+    // Shift text down if palette is present
+    textY += baseFontSize;
+  }
+
+  return { canvasWidth, canvasHeight, image, margins: m, baseFontSize, textY, palette };
+};
+
+// -- Render Core --
+export const renderFrame = (canvas: RenderCanvas, frame: FrameImage, settings: RenderSettings): FrameLayout | null => {
+  const ctx = getContext(canvas);
+  if (!ctx) return null;
+
+  const { colors } = frame;
+  // Crop and rotation come first: everything below, the background included, sees only the cropped photo
+  const img = frame.crop ? cropSource(frame.source, frame.crop, frame.width, frame.height) : frame.source;
+  // Absolute pixel constants are expressed at full resolution and scaled for proxies
+  const px = (value: number) => value * (frame.scale ?? 1);
+  const { optics, markings, background, metadata: meta } = settings;
+  // Background modes may replace the preset's border and text colours
+  const style = { ...settings.style, ...resolveFrameColors(settings.style, background, colors) };
+  const { layout: layoutStyle } = style;
+
+  const layout = computeLayout(frame.width, frame.height, colors, settings, frame.canvasSize);
+  const { canvasWidth: canvasW, canvasHeight: canvasH, margins: m, baseFontSize } = layout;
+  const { x: drawX, y: drawY, width: originalW, height: originalH } = layout.image;
+  const maxDim = Math.max(originalW, originalH);
+
+  canvas.width = Math.round(canvasW);
+  canvas.height = Math.round(canvasH);
+
+  // 3. Background
+  drawBackground(ctx, { source: img, width: frame.width, height: frame.height }, canvasW, canvasH, background, style);
+
+  // 4. Film Strip (For Negative) - rebate, perforations and edge print around the photo
+  if (layoutStyle === 'negative') {
+    drawNegativeStrip(ctx, layout.image, canvasW, canvasH, settings.film, style.bg);
+  }
+
+  // 4b. Mat (Passe-partout) - board and bevels between the border and the photo
+  const matBoard = layoutStyle !== 'negative' ? drawMat(ctx, layout.image, settings.border, maxDim) : null;
+  const photoRadius = getCornerRadius(settings.border.photoRadius, layout.image);
+
+  // 5. Shadow (Behind image) - with a mat, the border's shadow falls onto the mat instead
+  if (optics.shadow && layoutStyle !== 'cinema' && layoutStyle !== 'negative') {
+    if (matBoard) {
+      drawInsetShadow(ctx, matBoard, canvasW * 0.01, canvasW * 0.003);
+    } else {
+      ctx.save();
+      ctx.shadowColor = "rgba(0, 0, 0, 0.25)";
+      ctx.shadowBlur = canvasW * 0.02;
+      ctx.shadowOffsetX = canvasW * 0.005;
+      ctx.shadowOffsetY = canvasW * 0.005;
+      ctx.fillStyle = style.bg;
+      ctx.beginPath();
+      if (photoRadius > 0 && ctx.roundRect) ctx.roundRect(drawX, drawY, originalW, originalH, photoRadius);
+      else ctx.rect(drawX, drawY, originalW, originalH);
+      ctx.fill();
+      ctx.restore();
+    }
+  }
+
+  // Rounded photo corners: the frame as it is now goes back into the corners once the photo is done
+  const beneath = photoRadius > 0 ? snapshotCanvas(canvas) : null;
+
+  // 6. Draw Image - through the lens model and the LUT first, so the filters and leaks below see the result
+  let photo: CanvasImageSource = img;
+  if (hasLensEffect(optics.lens)) {
+    photo = applyLens(photo, originalW, originalH, optics.lens);
+  }
+  const lut = optics.lut.id && optics.lut.intensity > 0 ? resolveLut(optics.lut.id, frame.assets?.luts) : null;
+  if (lut) {
+    photo = gradePhoto(photo, originalW, originalH, lut, optics.lut);
+  }
+  ctx.drawImage(photo, drawX, drawY, originalW, originalH);
+
+  // 7. Optical Filters - CLIPPED TO IMAGE
+  const { type: filterType, strength: filterStrength, radius: filterRadius } = optics.filter;
+  if (filterType !== 'none') {
+    ctx.save();
+    // Clip to image area to prevent filter bleeding onto border
+    ctx.beginPath();
+    ctx.rect(drawX, drawY, originalW, originalH);
+    ctx.clip();
+
+    const relativeBlur = (filterRadius / 1000) * Math.max(canvasW, canvasH);
+
+    if (filterType === 'soft') {
+      ctx.globalCompositeOperation = 'screen';
+      ctx.globalAlpha = filterStrength;
+      ctx.filter = `blur(${Math.max(px(1), relativeBlur)}px)`;
+      ctx.drawImage(photo, drawX, drawY, originalW, originalH);
+    }
+    else if (filterType === 'black-mist') {
+      ctx.globalCompositeOperation = 'lighten';
+      ctx.globalAlpha = filterStrength * 0.8;
+      ctx.filter = `blur(${Math.max(px(1), relativeBlur * 0.5)}px)`;
+      ctx.drawImage(photo, drawX, drawY, originalW, originalH);
+    }
+    else if (filterType === 'dreamy') {
+      ctx.globalCompositeOperation = 'screen';
+      ctx.globalAlpha = filterStrength;
+      ctx.filter = `blur(${Math.max(px(2), relativeBlur * 2)}px)`;
+      ctx.drawImage(photo, drawX, drawY, originalW, originalH);
+    }
+    else if (filterType === 'halation' || filterType === 'bloom') {
+      drawGlow(ctx, photo, layout.image, optics.filter, Math.max(px(1), relativeBlur));
+    }
+    ctx.restore();
+  }
+
+  // 8. Light Leaks - over the photo; fog also bleeds into the border
+  if (optics.leak) {
+    drawLightLeak(ctx, layout.image, { width: canvasW, height: canvasH }, optics.lightLeak, frame.seed ?? 0, style.bg);
+  }
+
+  // 9. Film Grain - written into the photo pixels; cinema frames stay clean
+  if (optics.texture && layoutStyle !== 'cinema') {
+    applyGrain(ctx, layout.image, optics.grain, frame.seed ?? 0);
+  }
+
+  if (beneath) {
+    restorePhotoCorners(ctx, beneath, layout.image, photoRadius);
+  }
+  drawKeyline(ctx, layout.image, settings.border, maxDim);
+
+  // 10. Quartz Date - exposed onto the photo itself
+  if (markings.quartz) {
+    drawQuartzDate(ctx, meta.quartzDate, settings.quartz, layout.image);
+  }
+
+  // 11. Typography & Palette
+  const { shape } = settings.palette;
+  layout.palette.forEach(({ x, y, radius, color, label }) => {
+    ctx.beginPath();
+    ctx.fillStyle = `rgb(${color.r},${color.g},${color.b})`;
+    if (shape === 'circle') {
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+    } else if (shape === 'rounded' && ctx.roundRect) {
+      ctx.roundRect(x - radius, y - radius, radius * 2, radius * 2, radius * 0.35);
+    } else {
+      ctx.rect(x - radius, y - radius, radius * 2, radius * 2);
+    }
+    ctx.fill();
+
+    if (label) {
+      ctx.save();
+      ctx.fillStyle = style.text;
+      ctx.globalAlpha = 0.7;
+      ctx.font = `${baseFontSize * PALETTE_LABEL_SIZE}px "Courier New", monospace`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.fillText(label, x, y + radius + baseFontSize * PALETTE_LABEL_SIZE * 0.6);
+      ctx.restore();
+    }
+  });
+
+  if (meta.showMetadata) {
+    ctx.save();
+    // Caption bands sit outside the film on negatives
+    const strip = layoutStyle === 'negative' ? getStripBounds(layout.image) : null;
+    const captionTop = strip ? Math.max(0, strip.top) : drawY;
+    const captionBottom = strip ? Math.min(canvasH, strip.bottom) : drawY + originalH;
+
+    // Brand mark: only the gallery and polaroid layouts have room for it
+    const { logo } = settings;
+    const customLogo = frame.assets?.logo;
+    const brand = logo.brand === 'auto' ? detectBrand(meta.make, meta.camera) : logo.brand;
+    let mark: CaptionMark | undefined;
+    if (logo.enabled && (layoutStyle === 'gallery' || layoutStyle === 'polaroid') && brand) {
+      if (brand === 'custom') {
+        if (customLogo) {
+          const aspect = customLogo.width / customLogo.height;
+          mark = { slot: logo.slot, size: logo.size, measure: h => h * aspect };
+        }
+      } else {
+        mark = { slot: logo.slot, size: logo.size, measure: h => measureBrandMark(ctx, brand, h) };
+      }
+    }
+
+    const { captions, mark: markBox } = layoutCaptions(ctx, style, meta, {
+      baseFontSize,
+      centerX: drawX + originalW / 2,
+      width: originalW,
+      showSignature: markings.signature,
+      bands: {
+        top: { centerY: captionTop / 2, maxHeight: captionTop, left: drawX, right: drawX + originalW },
+        bottom: {
+          centerY: layout.textY,
+          maxHeight: 2 * Math.min(layout.textY - captionBottom, canvasH - layout.textY),
+          left: drawX,
+          right: drawX + originalW,
+        },
+      },
+      mark,
+    });
+
+    if (markBox && brand) {
+      if (brand === 'custom' && customLogo) {
+        ctx.drawImage(customLogo, markBox.x, markBox.y, markBox.width, markBox.height);
+      } else {
+        drawBrandMark(ctx, brand, markBox.x, markBox.y, markBox.height, {
+          ink: style.text, paper: style.bg, monochrome: logo.monochrome,
+        });
+      }
+    }
+
+    ctx.fillStyle = style.text;
+    ctx.textBaseline = 'middle';
+    captions.forEach(caption => {
+      ctx.font = caption.font;
+      ctx.letterSpacing = `${caption.tracking}px`;
+      ctx.textAlign = caption.align;
+      ctx.globalAlpha = caption.opacity;
+      ctx.fillText(caption.text, caption.x, caption.y);
+    });
+    ctx.restore();
+  }
+
+  // 11b. Watermark - over everything, captions included
+  if (frame.watermark?.enabled) {
+    drawWatermark(ctx, frame.watermark, frame.assets?.watermark, layout);
+  }
+
+  // 12. Canvas Corners - cut out last so nothing draws back into them
+  if (settings.border.canvasRadius > 0) {
+    roundCanvasCorners(ctx, canvasW, canvasH, getCornerRadius(settings.border.canvasRadius, { width: canvasW, height: canvasH }));
+  }
+  return layout;
+};
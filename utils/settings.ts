@@ -0,0 +1,160 @@
+import { BorderSettings, RenderSettings } from '../types';
+import { BUILTIN_STYLES, LAYOUT_CAPTIONS } from './styles';
+
+// Bump when the shape of RenderSettings changes and teach normalizeSettings the migration
+// v2: the look moved from border.type (built-in id) to preset + style
+// v3: style.captions replaced the per-layout text blocks
+// v4: logo section
+// v5: palette section
+// v6: background section
+// v7: optics.grain
+// v8: optics.lightLeak
+// v9: optics.lut
+// v10: optics.filter threshold and tint
+// v11: optics.lens
+// v12: film section
+// v13: border.mat and corner radii
+// v14: quartz section
+export const SETTINGS_VERSION = 14;
+
+export const DEFAULT_SETTINGS: RenderSettings = {
+  version: SETTINGS_VERSION,
+  preset: 'simple-white',
+  style: BUILTIN_STYLES['simple-white'],
+  border: {
+    mode: 'simple',
+    scale: 10, // 10% padding by default
+    margins: { top: 10, bottom: 10, left: 10, right: 10 },
+    target: { width: 4, height: 5, unit: 'ratio', dpi: 300, minBorder: 5, matchOrientation: false },
+    mat: { enabled: false, color: '#f4f1ea', width: 4, bevel: true, keyline: 0, keylineColor: '#1a1a1a' },
+    photoRadius: 0,
+    canvasRadius: 0,
+  },
+  optics: {
+    lens: {
+      vignette: { amount: 0, midpoint: 0.5, roundness: 0, feather: 0.5 },
+      aberration: 0,
+      distortion: 0,
+    },
+    lut: { id: '', intensity: 1, interpolation: 'tetrahedral' },
+    shadow: true,
+    texture: false,
+    grain: { size: 1, amount: 0.35, roughness: 0.5, chroma: 0 },
+    leak: false,
+    lightLeak: { style: 'corner-flare', color: '#ff9a3c', intensity: 0.5, position: 0, angle: 0, randomize: false, variant: 0 },
+    filter: { type: 'none', strength: 0.5, radius: 20, threshold: 0.75, tint: '#ff3c14' },
+  },
+  markings: {
+    quartz: false,
+    signature: false,
+    palette: false,
+  },
+  quartz: {
+    glyphs: 'segment',
+    format: 'ymd',
+    color: 'orange',
+    corner: 'bottom-right',
+    rotation: 0,
+    size: 2.6,
+    auto: true,
+    yearOffset: 0,
+  },
+  logo: {
+    enabled: false,
+    brand: 'auto',
+    slot: 'bottom-center',
+    size: 1.8,
+    monochrome: false,
+  },
+  film: {
+    stock: 'KODAK PORTRA 400',
+    frame: 1,
+    pitch: 4.75,
+    edgePrint: true,
+    dxCode: true,
+    rebate: 'style',
+    rebateColor: '#2a1a10',
+  },
+  palette: {
+    count: 5,
+    sort: 'dominance',
+    labels: 'none',
+    shape: 'circle',
+    size: 1,
+  },
+  background: {
+    mode: 'solid',
+    blur: 4,
+    dim: 0.2,
+    gradientFrom: '#f3e7d3',
+    gradientTo: '#c9b79c',
+    gradientAngle: 90,
+    texture: 'paper',
+    textureStrength: 0.5,
+    autoText: true,
+  },
+  metadata: {
+    camera: 'LEICA M6',
+    lens: 'SUMMILUX 35mm',
+    settings: 'PORTRA 400',
+    date: '1998.05.24',
+    quartzDate: `'98 05 24`,
+    signature: 'Lumina User',
+    make: 'LEICA',
+    model: 'M6',
+    focal: '35',
+    aperture: '1.4',
+    shutter: '1/125',
+    iso: '400',
+    showMetadata: true,
+  },
+};
+
+// Anything that may have been written by an older version
+export type SettingsInput = Partial<Omit<RenderSettings, 'border'>> & {
+  border?: Partial<BorderSettings> & { type?: string };
+};
+
+/**
+ * Fills any section missing from older or partial settings with defaults.
+ * Used wherever settings come from outside the running app.
+ */
+export const normalizeSettings = (raw: SettingsInput): RenderSettings => {
+  const { type: legacyPreset, ...border } = raw.border ?? {};
+  const preset = raw.preset ?? legacyPreset ?? DEFAULT_SETTINGS.preset;
+  const style = { ...(BUILTIN_STYLES[preset] ?? DEFAULT_SETTINGS.style), ...raw.style };
+  return {
+    version: SETTINGS_VERSION,
+    preset,
+    // Styles saved before captions existed get the text blocks their layout used to draw
+    style: { ...style, captions: raw.style?.captions ?? LAYOUT_CAPTIONS[style.layout] },
+    border: {
+      ...DEFAULT_SETTINGS.border,
+      ...border,
+      margins: { ...DEFAULT_SETTINGS.border.margins, ...border.margins },
+      target: { ...DEFAULT_SETTINGS.border.target, ...border.target },
+      mat: { ...DEFAULT_SETTINGS.border.mat, ...border.mat },
+    },
+    optics: {
+      ...DEFAULT_SETTINGS.optics,
+      ...raw.optics,
+      lens: {
+        ...DEFAULT_SETTINGS.optics.lens,
+        ...raw.optics?.lens,
+        vignette: { ...DEFAULT_SETTINGS.optics.lens.vignette, ...raw.optics?.lens?.vignette },
+      },
+      lut: { ...DEFAULT_SETTINGS.optics.lut, ...raw.optics?.lut },
+      filter: { ...DEFAULT_SETTINGS.optics.filter, ...raw.optics?.filter },
+      grain: { ...DEFAULT_SETTINGS.optics.grain, ...raw.optics?.grain },
+      lightLeak: { ...DEFAULT_SETTINGS.optics.lightLeak, ...raw.optics?.lightLeak },
+    },
+    markings: { ...DEFAULT_SETTINGS.markings, ...raw.markings },
+    // Settings from before automatic dates keep printing the quartz date that was typed in
+    quartz: { ...DEFAULT_SETTINGS.quartz, auto: (raw.version ?? 0) >= 14, ...raw.quartz },
+    logo: { ...DEFAULT_SETTINGS.logo, ...raw.logo },
+    film: { ...DEFAULT_SETTINGS.film, ...raw.film },
+    palette: { ...DEFAULT_SETTINGS.palette, ...raw.palette },
+    background: { ...DEFAULT_SETTINGS.background, ...raw.background },
+    metadata: { ...DEFAULT_SETTINGS.metadata, ...raw.metadata },
+  };
+};
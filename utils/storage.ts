@@ -0,0 +1,88 @@
+/**
+ * Browser storage helpers: localStorage for settings, IndexedDB for large binary data.
+ * Storage can be unavailable (private mode, quota), so reads fall back to the given
+ * value and writes fail silently.
+ */
+
+export const STORAGE_KEYS = {
+  exportSettings: 'lumina.export',
+  userPresets: 'lumina.presets',
+  customLogo: 'lumina.logo',
+  watermark: 'lumina.watermark',
+  watermarkImage: 'lumina.watermark.image',
+};
+
+export const loadJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Persisting is best effort
+  }
+};
+
+// -- IndexedDB --
+// Records too large for localStorage (LUT tables), in object stores keyed by `id`
+const DB_NAME = 'lumina';
+const DB_VERSION = 1;
+
+export const DB_STORES = {
+  luts: 'luts',
+};
+
+const openDB = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      Object.values(DB_STORES).forEach(store => {
+        if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store, { keyPath: 'id' });
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(store: string, mode: IDBTransactionMode, run: (objects: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDB();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(store, mode).objectStore(store));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadRecords = async <T>(store: string): Promise<T[]> => {
+  try {
+    return await withStore<T[]>(store, 'readonly', objects => objects.getAll());
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecord = async (store: string, record: { id: string }) => {
+  try {
+    await withStore(store, 'readwrite', objects => objects.put(record));
+  } catch {
+    // Persisting is best effort
+  }
+};
+
+export const deleteRecord = async (store: string, id: string) => {
+  try {
+    await withStore(store, 'readwrite', objects => objects.delete(id));
+  } catch {
+    // Persisting is best effort
+  }
+};
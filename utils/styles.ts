@@ -0,0 +1,60 @@
+import { CaptionLine, FrameStyle, LayoutStyle } from '../types';
+
+/**
+ * Built-in looks. A style only covers colours, fonts and the caption layout;
+ * geometry and optics stay as the user set them when a built-in is picked.
+ */
+
+export const FONT_STACKS = {
+  serif: 'Times New Roman, serif',
+  sans: 'Helvetica Neue, sans-serif',
+  script: 'Brush Script MT, cursive',
+};
+
+// Choices offered by the style editor
+export const FONT_CHOICES = [
+  'Times New Roman, serif',
+  'Georgia, serif',
+  'Didot, Bodoni MT, serif',
+  'Helvetica Neue, sans-serif',
+  'Futura, Century Gothic, sans-serif',
+  'Gill Sans, sans-serif',
+  'Courier New, monospace',
+  'Brush Script MT, cursive',
+  'Snell Roundhand, cursive',
+];
+
+const line = (template: string, slot: CaptionLine['slot'], options: Partial<CaptionLine> = {}): CaptionLine => ({
+  template, slot, font: 'body', weight: 400, italic: false, uppercase: false, size: 1, tracking: 0, opacity: 1, ...options,
+});
+
+// Caption templates each frame layout starts with
+export const LAYOUT_CAPTIONS: Record<LayoutStyle, CaptionLine[]> = {
+  gallery: [
+    line('{camera}', 'bottom-center', { font: 'title', weight: 700, uppercase: true, size: 1.2 }),
+    line('{lens}  |  {settings}  |  {date}', 'bottom-center', { size: 0.8, opacity: 0.7 }),
+    line('{signature}', 'bottom-right', { font: 'script', size: 2 }),
+  ],
+  polaroid: [
+    line('{camera}', 'bottom-left', { font: 'title', italic: true, size: 1.8 }),
+    line('{signature}', 'bottom-right', { font: 'script', size: 2.5 }),
+    line('{date}', 'bottom-right', { size: 0.9, opacity: 0.6, signatureFallback: true }),
+  ],
+  negative: [
+    line('{camera}', 'bottom-center', { font: 'title', weight: 700, uppercase: true, size: 1.2 }),
+    line('{lens}  |  {settings}  |  {date}', 'bottom-center', { size: 0.8, opacity: 0.7 }),
+  ],
+  cinema: [
+    line('{camera}  //  {settings}', 'bottom-center', { uppercase: true, size: 0.7, tracking: 0.25 }),
+  ],
+};
+
+const base = { titleFont: FONT_STACKS.serif, bodyFont: FONT_STACKS.sans, scriptFont: FONT_STACKS.script };
+
+export const BUILTIN_STYLES: Record<string, FrameStyle> = {
+  'simple-white': { ...base, layout: 'gallery', bg: '#ffffff', text: '#333333', captions: LAYOUT_CAPTIONS.gallery },
+  'simple-black': { ...base, layout: 'gallery', bg: '#121212', text: '#aaaaaa', captions: LAYOUT_CAPTIONS.gallery },
+  'polaroid': { ...base, layout: 'polaroid', bg: '#f4f4f4', text: '#222222', captions: LAYOUT_CAPTIONS.polaroid },
+  'film-negative': { ...base, layout: 'negative', bg: '#000000', text: '#aaaaaa', captions: LAYOUT_CAPTIONS.negative },
+  'cinema': { ...base, layout: 'cinema', bg: '#000000', text: '#ffffff', captions: LAYOUT_CAPTIONS.cinema },
+};
@@ -0,0 +1,149 @@
+import { RenderContext, WatermarkAnchor, WatermarkSettings } from '../types';
+import type { FrameLayout, Rect } from './renderer';
+
+/**
+ * Watermark: a studio mark stamped over the finished frame.
+ * Sizes and distances follow the photo's long edge, so the mark covers the same share of every
+ * photo in a batch whatever its resolution.
+ */
+
+export const WATERMARK_ANCHORS: WatermarkAnchor[] = [
+  'top-left', 'top-center', 'top-right',
+  'middle-left', 'center', 'middle-right',
+  'bottom-left', 'bottom-center', 'bottom-right',
+];
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  enabled: false,
+  kind: 'text',
+  text: '© Lumina Studio',
+  font: 'Helvetica Neue, sans-serif',
+  color: '#ffffff',
+  anchor: 'bottom-right',
+  area: 'photo',
+  opacity: 0.6,
+  scale: 15,
+  rotation: 0,
+  offset: 2,
+  tiled: false,
+};
+
+// Long side of an uploaded watermark once decoded
+export const WATERMARK_EDGE = 2048;
+// Space between tiles, as a multiple of the mark's long side
+const TILE_SPACING = 1.6;
+
+interface Mark {
+  width: number;
+  height: number;
+  draw: (ctx: RenderContext) => void; // centred on the origin
+}
+
+const buildMark = (ctx: RenderContext, watermark: WatermarkSettings, image: ImageBitmap | undefined, size: number): Mark | null => {
+  if (watermark.kind === 'image') {
+    if (!image) return null;
+    const k = size / Math.max(image.width, image.height);
+    const width = image.width * k, height = image.height * k;
+    return { width, height, draw: c => c.drawImage(image, -width / 2, -height / 2, width, height) };
+  }
+  const text = watermark.text.trim();
+  if (!text) return null;
+  // Measured at a reference size, then scaled so the longer side of the text box is `size`
+  ctx.font = `600 100px ${watermark.font}`;
+  const measured = ctx.measureText(text).width;
+  const fontSize = Math.min(size * 100 / Math.max(1, measured), size / 1.2);
+  ctx.font = `600 ${fontSize}px ${watermark.font}`;
+  const width = ctx.measureText(text).width;
+  return {
+    width,
+    height: fontSize * 1.2,
+    draw: c => {
+      c.font = `600 ${fontSize}px ${watermark.font}`;
+      c.fillStyle = watermark.color;
+      c.textAlign = 'center';
+      c.textBaseline = 'middle';
+      c.fillText(text, 0, 0);
+    },
+  };
+};
+
+const anchorParts = (anchor: WatermarkAnchor): ['top' | 'middle' | 'bottom', 'left' | 'center' | 'right'] => {
+  if (anchor === 'center') return ['middle', 'center'];
+  const [row, col] = anchor.split('-');
+  return [row as 'top' | 'middle' | 'bottom', col as 'left' | 'center' | 'right'];
+};
+
+// Centre of a mark of size `w` x `h` anchored in the photo, `offset` in from its edges
+const placeOnPhoto = (anchor: WatermarkAnchor, image: Rect, w: number, h: number, offset: number) => {
+  const [row, col] = anchorParts(anchor);
+  const x = col === 'left' ? image.x + offset + w / 2
+    : col === 'right' ? image.x + image.width - offset - w / 2
+    : image.x + image.width / 2;
+  const y = row === 'top' ? image.y + offset + h / 2
+    : row === 'bottom' ? image.y + image.height - offset - h / 2
+    : image.y + image.height / 2;
+  return { x, y };
+};
+
+// In the border: centred in the margin it points at, lined up with the photo's edges along it
+const placeInBorder = (anchor: WatermarkAnchor, layout: FrameLayout, w: number, h: number, offset: number) => {
+  const { image, canvasWidth, canvasHeight } = layout;
+  const [row, col] = anchorParts(anchor);
+  const bottom = image.y + image.height, right = image.x + image.width;
+  if (row === 'middle') {
+    const x = col === 'left' ? image.x / 2 : col === 'right' ? (right + canvasWidth) / 2 : canvasWidth / 2;
+    return { x, y: image.y + image.height / 2 };
+  }
+  const y = row === 'top' ? image.y / 2 : (bottom + canvasHeight) / 2;
+  const x = col === 'left' ? image.x + offset + w / 2 : col === 'right' ? right - offset - w / 2 : canvasWidth / 2;
+  return { x, y };
+};
+
+/**
+ * Draws the watermark over everything else. Tiled marks repeat in staggered rows turned by
+ * the rotation, clipped to the photo or, for the border area, to the whole canvas.
+ */
+export const drawWatermark = (ctx: RenderContext, watermark: WatermarkSettings, image: ImageBitmap | undefined, layout: FrameLayout) => {
+  const maxDim = Math.max(layout.image.width, layout.image.height);
+  const mark = buildMark(ctx, watermark, image, (watermark.scale / 100) * maxDim);
+  if (!mark || !(mark.width > 0 && mark.height > 0)) return;
+  const offset = (watermark.offset / 100) * maxDim;
+  const angle = (watermark.rotation * Math.PI) / 180;
+
+  ctx.save();
+  ctx.globalAlpha = Math.min(1, Math.max(0, watermark.opacity));
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  if (watermark.tiled) {
+    const area = watermark.area === 'photo'
+      ? layout.image
+      : { x: 0, y: 0, width: layout.canvasWidth, height: layout.canvasHeight };
+    ctx.beginPath();
+    ctx.rect(area.x, area.y, area.width, area.height);
+    ctx.clip();
+    // Lattice in the rotated frame, large enough to cover the area at any angle
+    const stepX = Math.max(mark.width, mark.height) * TILE_SPACING + offset;
+    const stepY = mark.height * TILE_SPACING * 2 + offset;
+    const reach = Math.hypot(area.width, area.height) / 2;
+    ctx.translate(area.x + area.width / 2, area.y + area.height / 2);
+    ctx.rotate(angle);
+    for (let row = -Math.ceil(reach / stepY); row * stepY <= reach; row++) {
+      const stagger = row % 2 ? stepX / 2 : 0;
+      for (let col = -Math.ceil(reach / stepX) - 1; col * stepX <= reach; col++) {
+        ctx.save();
+        ctx.translate(col * stepX + stagger, row * stepY);
+        mark.draw(ctx);
+        ctx.restore();
+      }
+    }
+  } else {
+    const { x, y } = watermark.area === 'photo'
+      ? placeOnPhoto(watermark.anchor, layout.image, mark.width, mark.height, offset)
+      : placeInBorder(watermark.anchor, layout, mark.width, mark.height, offset);
+    ctx.translate(x, y);
+    ctx.rotate(angle);
+    mark.draw(ctx);
+  }
+  ctx.restore();
+};